@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'vitest'
+
+import { parseFrontmatter } from '../plugin/mdx'
+
+describe('parseFrontmatter', () => {
+  test('reads top-level scalars', () => {
+    expect(
+      parseFrontmatter(`---
+title: Getting Started
+description: "Install and \\"configure\\" the plugin"
+order: 2
+draft: false
+summary: 'It''s quick' # shown in the sidebar
+updated:
+---
+
+# Getting Started
+`),
+    ).toEqual({
+      title: 'Getting Started',
+      description: 'Install and "configure" the plugin',
+      order: 2,
+      draft: false,
+      summary: "It's quick",
+      updated: null,
+    })
+  })
+
+  test('reads inline and block lists', () => {
+    expect(
+      parseFrontmatter(`---
+tags: [guide, 'setup', 1]
+authors:
+  - Ada
+  - "Grace"
+---
+`),
+    ).toEqual({
+      tags: ['guide', 'setup', 1],
+      authors: ['Ada', 'Grace'],
+    })
+  })
+
+  test('reads block scalars and nested mappings', () => {
+    expect(
+      parseFrontmatter(`---
+description: >
+  Install the plugin
+  and configure it.
+notes: |
+  first
+  second
+meta:
+  og:
+    image: /cover.png
+  keywords: [vite, routes]
+---
+`),
+    ).toEqual({
+      description: 'Install the plugin and configure it.\n',
+      notes: 'first\nsecond\n',
+      meta: {
+        og: { image: '/cover.png' },
+        keywords: ['vite', 'routes'],
+      },
+    })
+  })
+
+  test('throws on invalid frontmatter', () => {
+    expect(() => parseFrontmatter('---\ntitle: [unclosed\n---\n')).toThrow()
+    expect(() => parseFrontmatter('---\n- a\n- b\n---\n')).toThrow(
+      'Frontmatter must be a mapping of keys to values',
+    )
+  })
+
+  test('returns undefined without frontmatter', () => {
+    expect(parseFrontmatter('# Title\n\n---\n\ntitle: no\n---\n')).toBe(
+      undefined,
+    )
+  })
+})
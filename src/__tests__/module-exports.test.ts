@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'vitest'
+
+import { parseModuleExports } from '../plugin/module-exports'
+
+describe('parseModuleExports', () => {
+  test('collects declarations in source order', () => {
+    expect(
+      parseModuleExports(`
+import { Outlet } from 'react-router'
+
+export async function loader() {}
+export const action = async () => {}
+export let shouldRevalidate = () => false
+export class Model {}
+export function* generator() {}
+export default function Page() {
+  return <Outlet />
+}
+`),
+    ).toEqual([
+      'loader',
+      'action',
+      'shouldRevalidate',
+      'Model',
+      'generator',
+      'default',
+    ])
+  })
+
+  test('collects export lists and re-exports', () => {
+    expect(
+      parseModuleExports(`
+const Component = () => null
+const clientLoader = () => null
+export { Component, clientLoader as loader }
+export { default as ErrorBoundary, type Props } from './error'
+export * as helpers from './helpers'
+`),
+    ).toEqual(['Component', 'loader', 'ErrorBoundary', 'helpers'])
+  })
+
+  test('ignores types and comments', () => {
+    expect(
+      parseModuleExports(`
+export type Params = { id: string }
+export interface Data {}
+export type { Other } from './other'
+// export function loader() {}
+/* export const action = 1 */
+export const handle = { url: 'https://example.com' } // export const meta
+`),
+    ).toEqual(['handle'])
+  })
+
+  test('returns undefined for star re-exports', () => {
+    expect(parseModuleExports(`export * from './shared'`)).toBeUndefined()
+  })
+
+  test('returns undefined for destructured exports', () => {
+    expect(
+      parseModuleExports(`export const { loader, action } = handlers`),
+    ).toBeUndefined()
+    expect(parseModuleExports(`export let [first] = list`)).toBeUndefined()
+  })
+
+  test('returns undefined for several declarators', () => {
+    expect(parseModuleExports(`export const a = 1, b = 2`)).toBeUndefined()
+    expect(
+      parseModuleExports(`
+export const loader = () => null,
+  action = () => null
+`),
+    ).toBeUndefined()
+  })
+
+  test('keeps declarations with commas inside their type or value', () => {
+    expect(
+      parseModuleExports(`
+export const handle: Record<string, (a: string, b: number) => void> = {}
+export const loader = async ({ params }, context) =>
+  fetchPost(params.id, context)
+export const meta = () => [{ title: 'Post' }, { name: 'description' }];
+`),
+    ).toEqual(['handle', 'loader', 'meta'])
+  })
+
+  test('ignores exports inside strings', () => {
+    expect(
+      parseModuleExports(`
+const example = "export const fake = 1"
+const template = \`
+export function alsoFake() {}
+\`
+const pattern = /['"]/
+export default function Page() {}
+`),
+    ).toEqual(['default'])
+  })
+})
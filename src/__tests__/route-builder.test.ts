@@ -1,6 +1,12 @@
 import { describe, expect, test } from 'vitest'
 
-import { buildGlobRoutes, ROUTE_BUILDER_HANDLE } from '../utils/route-builder'
+import {
+  buildGlobRoutes,
+  findRouteConflicts,
+  flatRouteKeysToNested,
+  ROUTE_BUILDER_HANDLE,
+  type RouteSubtreeCache,
+} from '../utils/route-builder'
 
 const fakePromise = () => Promise.resolve({ default: () => {} })
 
@@ -42,8 +48,9 @@ describe('test route builder', () => {
             {
               "children": [
                 {
+                  "id": "add/index",
+                  "index": true,
                   "lazy": [Function],
-                  "path": "",
                   Symbol(): {
                     "fs": "./pages/add/index/",
                     "fullPath": "/add/",
@@ -51,6 +58,7 @@ describe('test route builder', () => {
                   },
                 },
               ],
+              "id": "add/layout",
               "lazy": [Function],
               "path": "",
               Symbol(): {
@@ -60,6 +68,7 @@ describe('test route builder', () => {
               },
             },
           ],
+          "id": "add",
           "path": "add",
           Symbol(): {
             "fs": "./pages/add/add",
@@ -67,6 +76,7 @@ describe('test route builder', () => {
           },
         },
         {
+          "id": "preview",
           "lazy": [Function],
           "path": "preview",
           Symbol(): {
@@ -86,8 +96,9 @@ describe('test route builder', () => {
                         {
                           "children": [
                             {
+                              "id": "(external)/(with-layout)/feed/[id]/index",
+                              "index": true,
                               "lazy": [Function],
-                              "path": "",
                               Symbol(): {
                                 "fs": "./pages/(external)/(with-layout)/feed/[id]/index/",
                                 "fullPath": "/feed/:id/",
@@ -95,6 +106,7 @@ describe('test route builder', () => {
                               },
                             },
                           ],
+                          "id": "(external)/(with-layout)/feed/[id]/layout",
                           "lazy": [Function],
                           "path": "",
                           Symbol(): {
@@ -104,6 +116,7 @@ describe('test route builder', () => {
                           },
                         },
                       ],
+                      "id": "(external)/(with-layout)/feed/[id]",
                       "path": ":id",
                       Symbol(): {
                         "fs": "./pages/(external)/(with-layout)/feed/[id]/:id",
@@ -111,6 +124,7 @@ describe('test route builder', () => {
                       },
                     },
                   ],
+                  "id": "(external)/(with-layout)/feed",
                   "path": "feed",
                   Symbol(): {
                     "fs": "./pages/(external)/(with-layout)/feed/feed",
@@ -118,8 +132,9 @@ describe('test route builder', () => {
                   },
                 },
                 {
+                  "id": "(external)/(with-layout)/index",
+                  "index": true,
                   "lazy": [Function],
-                  "path": "",
                   Symbol(): {
                     "fs": "./pages/(external)/(with-layout)/index/",
                     "fullPath": "/",
@@ -127,6 +142,7 @@ describe('test route builder', () => {
                   },
                 },
               ],
+              "id": "(external)/(with-layout)/layout",
               "lazy": [Function],
               "path": "",
               Symbol(): {
@@ -136,6 +152,7 @@ describe('test route builder', () => {
               },
             },
           ],
+          "id": "(external)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -153,8 +170,9 @@ describe('test route builder', () => {
                     {
                       "children": [
                         {
+                          "id": "(main)/(context)/discover/index",
+                          "index": true,
                           "lazy": [Function],
-                          "path": "",
                           Symbol(): {
                             "fs": "./pages/(main)/(context)/discover/index/",
                             "fullPath": "/discover/",
@@ -162,6 +180,7 @@ describe('test route builder', () => {
                           },
                         },
                       ],
+                      "id": "(main)/(context)/discover/layout",
                       "lazy": [Function],
                       "path": "",
                       Symbol(): {
@@ -171,6 +190,7 @@ describe('test route builder', () => {
                       },
                     },
                   ],
+                  "id": "(main)/(context)/discover",
                   "path": "discover",
                   Symbol(): {
                     "fs": "./pages/(main)/(context)/discover/discover",
@@ -178,6 +198,7 @@ describe('test route builder', () => {
                   },
                 },
               ],
+              "id": "(main)/(context)/layout",
               "lazy": [Function],
               "path": "",
               Symbol(): {
@@ -187,6 +208,7 @@ describe('test route builder', () => {
               },
             },
           ],
+          "id": "(main)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -217,6 +239,437 @@ describe('test route builder', () => {
     expect(mainGroupLayout[ROUTE_BUILDER_HANDLE]?.isSync).toBe(true)
   })
 
+  test('should map catch-all segments to splat routes after their siblings', () => {
+    const routes = buildGlobRoutes({
+      './pages/docs/[...slug].tsx': fakePromise,
+      './pages/docs/index.tsx': fakePromise,
+      './pages/docs/intro.tsx': fakePromise,
+      './pages/docs/[version].tsx': fakePromise,
+      './pages/blog/[...slug]/index.tsx': fakePromise,
+      './pages/blog/[...slug]/layout.tsx': fakePromise,
+    })
+
+    const docs = routes.find((route) => route.path === 'docs')!
+    expect(docs.children!.map((route) => route.path)).toEqual([
+      ':version',
+      'intro',
+      '*',
+      undefined,
+    ])
+
+    const docsSplat = findRouteByFs(routes, './pages/docs/[...slug]/*')
+    expect(docsSplat.path).toBe('*')
+    expect(docsSplat.children).toBeUndefined()
+    expect(docsSplat[ROUTE_BUILDER_HANDLE].fullPath).toBe('/docs/*')
+
+    // `[...slug]/index.tsx` keeps the directory pathless so `*` stays at the end
+    const blogSplatDir = findRouteByFs(routes, './pages/blog/[...slug]/*')
+    expect(blogSplatDir.path).toBe('')
+    const blogLayout = findRouteByFs(routes, './pages/blog/[...slug]/layout')
+    expect(blogLayout.lazy).toBe(fakePromise)
+    const blogSplat = findRouteByFs(
+      routes,
+      './pages/blog/[...slug]/index/*',
+    )
+    expect(blogSplat.path).toBe('*')
+    expect(blogSplat.lazy).toBe(fakePromise)
+    expect(blogSplat[ROUTE_BUILDER_HANDLE].fullPath).toBe('/blog/*')
+  })
+
+  test('should map double-bracket segments to optional params', () => {
+    const routes = buildGlobRoutes({
+      './pages/[[lang]]/about.tsx': fakePromise,
+      './pages/[[lang]]/index.tsx': fakePromise,
+      './pages/blog/[[page]].tsx': fakePromise,
+    })
+
+    const lang = routes.find((route) => route.path === ':lang?')!
+    expect(lang).toBeTruthy()
+    expect(lang.children!.map((route) => route.path)).toEqual(['about', undefined])
+
+    const about = findRouteByFs(routes, './pages/[[lang]]/about/about')
+    expect(about[ROUTE_BUILDER_HANDLE].fullPath).toBe('/:lang?/about')
+
+    const page = findRouteByFs(routes, './pages/blog/[[page]]/:page?')
+    expect(page.path).toBe(':page?')
+    expect(page.lazy).toBe(fakePromise)
+    expect(page[ROUTE_BUILDER_HANDLE].fullPath).toBe('/blog/:page?')
+  })
+
+  test('should map not-found files to catch-all routes sorted last', () => {
+    const routes = buildGlobRoutes({
+      './pages/not-found.tsx': fakePromise,
+      './pages/index.tsx': fakePromise,
+      './pages/(main)/layout.tsx': fakePromise,
+      './pages/(main)/home.tsx': fakePromise,
+      './pages/blog/layout.tsx': fakePromise,
+      './pages/blog/not-found.sync.tsx': fakePromise,
+      './pages/blog/index.tsx': fakePromise,
+      './pages/blog/[id].tsx': fakePromise,
+    })
+
+    expect(routes.at(-1)!.path).toBe('*')
+    expect(routes.at(-1)![ROUTE_BUILDER_HANDLE]).toEqual({
+      fs: './pages/not-found/*',
+      fullPath: '/*',
+      isSync: false,
+    })
+
+    // nested not-found stays inside the segment layout
+    const blogLayout = findRouteByFs(routes, './pages/blog/layout')
+    expect(blogLayout.children.map((route: any) => route.path)).toEqual([
+      ':id',
+      undefined,
+      '*',
+    ])
+    const blogNotFound = blogLayout.children.at(-1)
+    expect(blogNotFound[ROUTE_BUILDER_HANDLE]).toEqual({
+      fs: './pages/blog/not-found/*',
+      fullPath: '/blog/*',
+      isSync: true,
+    })
+  })
+
+  test('should attach error files to the enclosing layout or group', () => {
+    const routes = buildGlobRoutes({
+      './pages/blog/layout.tsx': fakePromise,
+      './pages/blog/error.tsx': fakePromise,
+      './pages/blog/index.tsx': fakePromise,
+      './pages/(main)/error.sync.tsx': fakePromise,
+      './pages/(main)/home.tsx': fakePromise,
+      './pages/about/error.tsx': fakePromise,
+    })
+
+    const blogLayout = findRouteByFs(routes, './pages/blog/layout')
+    expect(blogLayout[ROUTE_BUILDER_HANDLE].errorBoundary).toBe(
+      './pages/blog/error.tsx',
+    )
+    expect(blogLayout.children.map((route: any) => route.path)).toEqual([undefined])
+
+    const mainGroup = findRouteByFs(routes, './pages/(main)')
+    expect(mainGroup[ROUTE_BUILDER_HANDLE].errorBoundary).toBe(
+      './pages/(main)/error.sync.tsx',
+    )
+    expect(mainGroup.children.map((route: any) => route.path)).toEqual([
+      'home',
+    ])
+
+    // without a layout, `error.tsx` is an ordinary page
+    expect(findRouteByFs(routes, './pages/about/error/error')).toBeTruthy()
+  })
+
+  test('should attach loading files to the enclosing layout or group', () => {
+    const routes = buildGlobRoutes({
+      './pages/blog/layout.tsx': fakePromise,
+      './pages/blog/loading.tsx': fakePromise,
+      './pages/blog/error.tsx': fakePromise,
+      './pages/blog/index.tsx': fakePromise,
+      './pages/(main)/loading.sync.tsx': fakePromise,
+      './pages/(main)/home.tsx': fakePromise,
+    })
+
+    const blogLayout = findRouteByFs(routes, './pages/blog/layout')
+    expect(blogLayout[ROUTE_BUILDER_HANDLE]).toMatchObject({
+      errorBoundary: './pages/blog/error.tsx',
+      hydrateFallback: './pages/blog/loading.tsx',
+    })
+    expect(blogLayout.children.map((route: any) => route.path)).toEqual([undefined])
+
+    const mainGroup = findRouteByFs(routes, './pages/(main)')
+    expect(mainGroup[ROUTE_BUILDER_HANDLE].hydrateFallback).toBe(
+      './pages/(main)/loading.sync.tsx',
+    )
+    expect(mainGroup.children.map((route: any) => route.path)).toEqual([
+      'home',
+    ])
+  })
+
+  test('should attach loading files without a layout to the nearest one', () => {
+    const routes = buildGlobRoutes({
+      './pages/layout.tsx': fakePromise,
+      './pages/blog/loading.tsx': fakePromise,
+      './pages/blog/index.tsx': fakePromise,
+      './pages/blog/posts/loading.tsx': fakePromise,
+      './pages/blog/posts/[id].tsx': fakePromise,
+      './pages/docs/layout.tsx': fakePromise,
+      './pages/docs/intro/loading.tsx': fakePromise,
+      './pages/docs/intro/index.tsx': fakePromise,
+    })
+
+    // the shallowest `loading` file below a layout wins
+    const rootLayout = findRouteByFs(routes, './pages/layout')
+    expect(rootLayout[ROUTE_BUILDER_HANDLE].hydrateFallback).toBe(
+      './pages/blog/loading.tsx',
+    )
+    const docsLayout = findRouteByFs(routes, './pages/docs/layout')
+    expect(docsLayout[ROUTE_BUILDER_HANDLE].hydrateFallback).toBe(
+      './pages/docs/intro/loading.tsx',
+    )
+
+    // and none of them is routed as a page
+    const paths: string[] = []
+    const collectPaths = (routes: any[]) =>
+      routes.forEach((route) => {
+        paths.push(route[ROUTE_BUILDER_HANDLE].fullPath)
+        if (route.children) collectPaths(route.children)
+      })
+    collectPaths(routes)
+    expect(paths.filter((path) => path.includes('loading'))).toEqual([])
+    expect(
+      findRouteConflicts([
+        './pages/blog/loading.tsx',
+        './pages/blog/loading/index.tsx',
+      ]),
+    ).toEqual([])
+  })
+
+  test('should only rebuild the subtrees of changed directories', () => {
+    const glob: Record<string, typeof fakePromise> = {
+      './pages/layout.tsx': fakePromise,
+      './pages/index.tsx': fakePromise,
+      './pages/blog/loading.tsx': fakePromise,
+      './pages/blog/[slug].tsx': fakePromise,
+      './pages/docs/intro.tsx': fakePromise,
+      './pages/(auth)/login.tsx': fakePromise,
+    }
+    const subtreeCache: RouteSubtreeCache = new Map()
+    const first = buildGlobRoutes(glob, { subtreeCache })
+
+    glob['./pages/docs/faq.tsx'] = fakePromise
+    const second = buildGlobRoutes(glob, { subtreeCache })
+
+    // same tree as without the cache
+    expect(second).toEqual(buildGlobRoutes(glob))
+    const childrenOf = (routes: any[], fs: string) =>
+      findRouteByFs(routes, fs).children
+    expect(childrenOf(second, './pages/docs/docs')).not.toBe(
+      childrenOf(first, './pages/docs/docs'),
+    )
+    expect(childrenOf(second, './pages/blog/blog')).toBe(
+      childrenOf(first, './pages/blog/blog'),
+    )
+    expect(childrenOf(second, './pages/(auth)')).toBe(
+      childrenOf(first, './pages/(auth)'),
+    )
+    // a reused subtree still hands its `loading` file to the nearest layout
+    expect(
+      findRouteByFs(second, './pages/layout')[ROUTE_BUILDER_HANDLE]
+        .hydrateFallback,
+    ).toBe('./pages/blog/loading.tsx')
+
+    // the sync variant of a page changes its directory's files too
+    delete glob['./pages/blog/[slug].tsx']
+    glob['./pages/blog/[slug].sync.tsx'] = fakePromise
+    const third = buildGlobRoutes(glob, { subtreeCache })
+    expect(third).toEqual(buildGlobRoutes(glob))
+    expect(
+      findRouteByFs(third, './pages/blog/[slug]/:slug')[ROUTE_BUILDER_HANDLE]
+        .isSync,
+    ).toBe(true)
+  })
+
+  test('should build the tree from a custom routes dir', () => {
+    const routes = buildGlobRoutes(
+      {
+        './app/views/index.tsx': fakePromise,
+        './app/views/settings/layout.tsx': fakePromise,
+        './app/views/settings/profile.tsx': fakePromise,
+      },
+      { routesDir: 'app/views' },
+    )
+
+    expect(routes.map((route) => route.path)).toEqual(['settings', undefined])
+    const profile = findRouteByFs(
+      routes,
+      './app/views/settings/profile/profile',
+    )
+    expect(profile[ROUTE_BUILDER_HANDLE].fullPath).toBe('/settings/profile')
+    expect(findRouteByFs(routes, './app/views/settings/layout')).toBeTruthy()
+  })
+
+  test('should resolve pages with custom extensions', () => {
+    const routes = buildGlobRoutes(
+      {
+        './pages/layout.sync.jsx': fakePromise,
+        './pages/index.tsx': fakePromise,
+        './pages/docs/layout.tsx': fakePromise,
+        './pages/docs/intro.mdx': fakePromise,
+        './pages/docs/error.jsx': fakePromise,
+        './pages/README.md': fakePromise,
+      },
+      { extensions: ['.tsx', '.jsx', '.mdx'] },
+    )
+
+    const layout = findRouteByFs(routes, './pages/layout')
+    expect(layout[ROUTE_BUILDER_HANDLE].isSync).toBe(true)
+    expect(layout.children.map((route: any) => route.path)).toEqual([
+      'docs',
+      undefined,
+    ])
+    const docs = findRouteByFs(layout.children, './pages/docs/layout')
+    expect(docs[ROUTE_BUILDER_HANDLE].errorBoundary).toBe(
+      './pages/docs/error.jsx',
+    )
+    expect(docs.children.map((route: any) => route.path)).toEqual(['intro'])
+  })
+
+  test('should derive stable route ids from page paths', () => {
+    const glob = {
+      './pages/(main)/layout.tsx': fakePromise,
+      './pages/(main)/home.tsx': fakePromise,
+      './pages/blog/layout.sync.tsx': fakePromise,
+      './pages/blog/index.tsx': fakePromise,
+      './pages/blog/[id].tsx': fakePromise,
+    }
+    const collectIds = (routes: any[]): string[] =>
+      routes.flatMap((route) => [
+        route.id,
+        ...collectIds(route.children ?? []),
+      ])
+
+    const routes = buildGlobRoutes(glob)
+    expect(collectIds(routes)).toEqual([
+      'blog',
+      'blog/layout',
+      'blog/[id]',
+      'blog/index',
+      '(main)/layout',
+      '(main)/home',
+    ])
+
+    // adding a sibling page does not shift the ids of existing routes
+    const withSibling = buildGlobRoutes({
+      ...glob,
+      './pages/blog/archive.tsx': fakePromise,
+    })
+    expect(findRouteByFs(withSibling, './pages/blog/[id]/:id').id).toBe(
+      'blog/[id]',
+    )
+  })
+
+  test('should translate flat route keys into the directory tree', () => {
+    const flatKeys = [
+      './pages/_index.tsx',
+      './pages/blog.tsx',
+      './pages/blog._index.tsx',
+      './pages/blog.$slug.sync.tsx',
+      './pages/_auth.tsx',
+      './pages/_auth.login.tsx',
+      './pages/settings._index.tsx',
+      './pages/($lang).about.tsx',
+      './pages/files.$.tsx',
+      './pages/sitemap[.]xml.tsx',
+      './pages/docs.$id/route.tsx',
+      './pages/docs.$id/toc.tsx',
+    ]
+    const nestedKeys = flatRouteKeysToNested(flatKeys, './pages/')
+
+    expect(Object.fromEntries(nestedKeys)).toEqual({
+      './pages/_index.tsx': './pages/index.tsx',
+      './pages/blog.tsx': './pages/blog/layout.tsx',
+      './pages/blog._index.tsx': './pages/blog/index.tsx',
+      './pages/blog.$slug.sync.tsx': './pages/blog/[slug].sync.tsx',
+      './pages/_auth.tsx': './pages/(auth)/layout.tsx',
+      './pages/_auth.login.tsx': './pages/(auth)/login.tsx',
+      './pages/settings._index.tsx': './pages/settings/index.tsx',
+      './pages/($lang).about.tsx': './pages/[[lang]]/about.tsx',
+      './pages/files.$.tsx': './pages/files/[...splat].tsx',
+      './pages/sitemap[.]xml.tsx': './pages/sitemap.xml.tsx',
+      './pages/docs.$id/route.tsx': './pages/docs/[id].tsx',
+    })
+
+    const toGlob = (keys: string[]) =>
+      Object.fromEntries(keys.map((key) => [key, fakePromise]))
+    expect(buildGlobRoutes(toGlob([...nestedKeys.values()]))).toEqual(
+      buildGlobRoutes(
+        toGlob([
+          './pages/index.tsx',
+          './pages/blog/layout.tsx',
+          './pages/blog/index.tsx',
+          './pages/blog/[slug].sync.tsx',
+          './pages/(auth)/layout.tsx',
+          './pages/(auth)/login.tsx',
+          './pages/settings/index.tsx',
+          './pages/[[lang]]/about.tsx',
+          './pages/files/[...splat].tsx',
+          './pages/sitemap.xml.tsx',
+          './pages/docs/[id].tsx',
+        ]),
+      ),
+    )
+  })
+
+  test('should reject flat routes escaping layout nesting', () => {
+    expect(() =>
+      flatRouteKeysToNested(
+        ['./pages/blog.tsx', './pages/blog_.edit.tsx'],
+        './pages/',
+      ),
+    ).toThrow('trailing "_"')
+  })
+
+  test('should report page files colliding on the same URL', () => {
+    const conflicts = findRouteConflicts([
+      './pages/about.tsx',
+      './pages/about/index.tsx',
+      './pages/(main)/index.tsx',
+      './pages/(marketing)/index.tsx',
+      './pages/a.tsx',
+      './pages/a.sync.tsx',
+      './pages/blog/[id].tsx',
+      './pages/blog/[slug].tsx',
+      './pages/blog/layout.tsx',
+      './pages/blog/layout.sync.tsx',
+      './pages/blog/error.tsx',
+      './pages/docs/[...slug]/index.tsx',
+      './pages/docs/not-found.tsx',
+    ])
+
+    expect(conflicts).toEqual([
+      {
+        path: '/',
+        files: ['./pages/(main)/index.tsx', './pages/(marketing)/index.tsx'],
+      },
+      { path: '/a', files: ['./pages/a.tsx', './pages/a.sync.tsx'] },
+      {
+        path: '/about',
+        files: ['./pages/about.tsx', './pages/about/index.tsx'],
+      },
+      {
+        path: '/blog',
+        files: ['./pages/blog/layout.tsx', './pages/blog/layout.sync.tsx'],
+      },
+      {
+        path: '/blog/:id',
+        files: ['./pages/blog/[id].tsx', './pages/blog/[slug].tsx'],
+      },
+      {
+        path: '/docs/*',
+        files: [
+          './pages/docs/[...slug]/index.tsx',
+          './pages/docs/not-found.tsx',
+        ],
+      },
+    ])
+  })
+
+  test('should not report layouts and segment files as conflicts', () => {
+    expect(
+      findRouteConflicts([
+        './pages/(main)/layout.tsx',
+        './pages/(admin)/layout.tsx',
+        './pages/(main)/home.tsx',
+        './pages/(main)/error.tsx',
+        './pages/(admin)/error.tsx',
+        './pages/settings/layout.tsx',
+        './pages/settings/index.tsx',
+        './pages/settings/loading.tsx',
+        './pages/blog/[id].tsx',
+        './pages/blog/[id]/edit.tsx',
+      ]),
+    ).toEqual([])
+  })
+
   test('match snapshot with custom segment group order', () => {
     expect(
       buildGlobRoutes(
@@ -245,8 +698,9 @@ describe('test route builder', () => {
             {
               "children": [
                 {
+                  "id": "add/index",
+                  "index": true,
                   "lazy": [Function],
-                  "path": "",
                   Symbol(): {
                     "fs": "./pages/add/index/",
                     "fullPath": "/add/",
@@ -254,6 +708,7 @@ describe('test route builder', () => {
                   },
                 },
               ],
+              "id": "add/layout",
               "lazy": [Function],
               "path": "",
               Symbol(): {
@@ -263,6 +718,7 @@ describe('test route builder', () => {
               },
             },
           ],
+          "id": "add",
           "path": "add",
           Symbol(): {
             "fs": "./pages/add/add",
@@ -270,6 +726,7 @@ describe('test route builder', () => {
           },
         },
         {
+          "id": "preview",
           "lazy": [Function],
           "path": "preview",
           Symbol(): {
@@ -287,8 +744,9 @@ describe('test route builder', () => {
                     {
                       "children": [
                         {
+                          "id": "(main)/(context)/discover/index",
+                          "index": true,
                           "lazy": [Function],
-                          "path": "",
                           Symbol(): {
                             "fs": "./pages/(main)/(context)/discover/index/",
                             "fullPath": "/discover/",
@@ -296,6 +754,7 @@ describe('test route builder', () => {
                           },
                         },
                       ],
+                      "id": "(main)/(context)/discover/layout",
                       "lazy": [Function],
                       "path": "",
                       Symbol(): {
@@ -305,6 +764,7 @@ describe('test route builder', () => {
                       },
                     },
                   ],
+                  "id": "(main)/(context)/discover",
                   "path": "discover",
                   Symbol(): {
                     "fs": "./pages/(main)/(context)/discover/discover",
@@ -312,6 +772,7 @@ describe('test route builder', () => {
                   },
                 },
               ],
+              "id": "(main)/(context)/layout",
               "lazy": [Function],
               "path": "",
               Symbol(): {
@@ -321,6 +782,7 @@ describe('test route builder', () => {
               },
             },
           ],
+          "id": "(main)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -340,8 +802,9 @@ describe('test route builder', () => {
                         {
                           "children": [
                             {
+                              "id": "(external)/(with-layout)/feed/[id]/index",
+                              "index": true,
                               "lazy": [Function],
-                              "path": "",
                               Symbol(): {
                                 "fs": "./pages/(external)/(with-layout)/feed/[id]/index/",
                                 "fullPath": "/feed/:id/",
@@ -349,6 +812,7 @@ describe('test route builder', () => {
                               },
                             },
                           ],
+                          "id": "(external)/(with-layout)/feed/[id]/layout",
                           "lazy": [Function],
                           "path": "",
                           Symbol(): {
@@ -358,6 +822,7 @@ describe('test route builder', () => {
                           },
                         },
                       ],
+                      "id": "(external)/(with-layout)/feed/[id]",
                       "path": ":id",
                       Symbol(): {
                         "fs": "./pages/(external)/(with-layout)/feed/[id]/:id",
@@ -365,6 +830,7 @@ describe('test route builder', () => {
                       },
                     },
                   ],
+                  "id": "(external)/(with-layout)/feed",
                   "path": "feed",
                   Symbol(): {
                     "fs": "./pages/(external)/(with-layout)/feed/feed",
@@ -372,8 +838,9 @@ describe('test route builder', () => {
                   },
                 },
                 {
+                  "id": "(external)/(with-layout)/index",
+                  "index": true,
                   "lazy": [Function],
-                  "path": "",
                   Symbol(): {
                     "fs": "./pages/(external)/(with-layout)/index/",
                     "fullPath": "/",
@@ -381,6 +848,7 @@ describe('test route builder', () => {
                   },
                 },
               ],
+              "id": "(external)/(with-layout)/layout",
               "lazy": [Function],
               "path": "",
               Symbol(): {
@@ -390,6 +858,7 @@ describe('test route builder', () => {
               },
             },
           ],
+          "id": "(external)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -417,6 +886,7 @@ describe('test route builder', () => {
       [
         {
           "children": [],
+          "id": "(main)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -427,6 +897,7 @@ describe('test route builder', () => {
         },
         {
           "children": [],
+          "id": "(admin)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -437,6 +908,7 @@ describe('test route builder', () => {
         },
         {
           "children": [],
+          "id": "(external)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -447,6 +919,7 @@ describe('test route builder', () => {
         },
         {
           "children": [],
+          "id": "(settings)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -473,6 +946,7 @@ describe('test route builder', () => {
       [
         {
           "children": [],
+          "id": "(main)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -483,6 +957,7 @@ describe('test route builder', () => {
         },
         {
           "children": [],
+          "id": "(login)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -493,6 +968,7 @@ describe('test route builder', () => {
         },
         {
           "children": [],
+          "id": "(external)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -520,6 +996,7 @@ describe('test route builder', () => {
       [
         {
           "children": [],
+          "id": "(main)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -530,6 +1007,7 @@ describe('test route builder', () => {
         },
         {
           "children": [],
+          "id": "(login)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -540,6 +1018,7 @@ describe('test route builder', () => {
         },
         {
           "children": [],
+          "id": "(external)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -550,6 +1029,7 @@ describe('test route builder', () => {
         },
         {
           "children": [],
+          "id": "(settings)/layout",
           "lazy": [Function],
           "path": "",
           Symbol(): {
@@ -2,11 +2,16 @@ import * as fs from 'node:fs'
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
+import type { RouteEmitterContext } from '../plugin/emitter'
 import { routeBuilderPlugin } from '../vite-plugin-route-builder'
 
 // Mock file system and glob
 vi.mock('node:fs', () => ({
+  existsSync: vi.fn(() => true),
   writeFileSync: vi.fn(),
+  readFileSync: vi.fn(() => {
+    throw new Error('ENOENT')
+  }),
   promises: {
     access: vi.fn(),
     readFile: vi.fn(),
@@ -23,9 +28,9 @@ vi.mock('fast-glob', () => ({
   },
 }))
 
-vi.mock('pathe', () => ({
+vi.mock('pathe', async (importOriginal) => ({
   resolve: vi.fn((root: string, path: string) => `${root}/${path}`),
-  relative: vi.fn((from: string, to: string) => to.replace(from, '')),
+  relative: (await importOriginal<typeof import('pathe')>()).relative,
   dirname: vi.fn((path: string) => path.split('/').slice(0, -1).join('/')),
 }))
 
@@ -230,6 +235,7 @@ describe('routeBuilderPlugin', () => {
       watcher: mockWatcher,
       ws: {
         send: vi.fn(),
+        on: vi.fn(),
       },
     }
 
@@ -282,6 +288,1591 @@ describe('routeBuilderPlugin', () => {
     expect(glob.default.sync).not.toHaveBeenCalled()
   })
 
+  it('should generate typed route paths and href helper', async () => {
+    const mockFiles = [
+      '/project/src/pages/index.tsx',
+      '/project/src/pages/settings/layout.tsx',
+      '/project/src/pages/settings/index.tsx',
+      '/project/src/pages/blog/[id].tsx',
+      '/project/src/pages/users/[userId]/posts/[postId].sync.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    const generatedContent = captureGeneratedContent()
+    expect(generatedContent).toBeTruthy()
+    const { content } = generatedContent!
+    expect(content).toContain(`export type RoutePath =
+  | "/"
+  | "/blog/:id"
+  | "/settings"
+  | "/users/:userId/posts/:postId"
+`)
+    expect(content).toContain('"/blog/:id": { "id": string }')
+    expect(content).toContain(
+      '"/users/:userId/posts/:postId": { "userId": string; "postId": string }',
+    )
+    expect(content).toContain('"/settings": {}')
+    expect(content).toContain('export function href<P extends RoutePath>(')
+  })
+
+  it('should resolve catch-all pages to splat routes', async () => {
+    const mockFiles = [
+      '/project/src/pages/docs/[...slug].tsx',
+      '/project/src/pages/blog/[...slug]/index.sync.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    const generatedContent = captureGeneratedContent()
+    expect(generatedContent).toBeTruthy()
+    const { content } = generatedContent!
+    expect(content).toContain(
+      'const lazy0 = () => import("./pages/docs/[...slug]")',
+    )
+    expect(content).toContain(
+      'import * as SyncComponent0 from "./pages/blog/[...slug]/index.sync"',
+    )
+    expect(content).toContain('"/blog/*": { "*": string }')
+    expect(content).toContain('"/docs/*": { "*": string }')
+  })
+
+  it('should resolve optional segments and type their params as optional', async () => {
+    const mockFiles = [
+      '/project/src/pages/[[lang]]/about.tsx',
+      '/project/src/pages/blog/[[page]].sync.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    const generatedContent = captureGeneratedContent()
+    expect(generatedContent).toBeTruthy()
+    const { content } = generatedContent!
+    expect(content).toContain('"path": ":lang?"')
+    expect(content).toContain(
+      'const lazy0 = () => import("./pages/[[lang]]/about")',
+    )
+    expect(content).toContain(
+      'import * as SyncComponent0 from "./pages/blog/[[page]].sync"',
+    )
+    expect(content).toContain('"/:lang?/about": { "lang"?: string }')
+    expect(content).toContain('"/blog/:page?": { "page"?: string }')
+  })
+
+  it('should resolve not-found files to lazy catch-all routes', async () => {
+    const mockFiles = [
+      '/project/src/pages/index.tsx',
+      '/project/src/pages/not-found.tsx',
+      '/project/src/pages/blog/not-found.sync.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    const generatedContent = captureGeneratedContent()
+    expect(generatedContent).toBeTruthy()
+    const { content } = generatedContent!
+    expect(content).toContain(
+      'import * as SyncComponent0 from "./pages/blog/not-found.sync"',
+    )
+    expect(content).toContain(`  {
+    "id": "not-found",
+    "path": "*",
+    "lazy": lazy1
+  }
+]`)
+  })
+
+  it('should wire error files as the ErrorBoundary of their layout', async () => {
+    const mockFiles = [
+      '/project/src/pages/blog/layout.tsx',
+      '/project/src/pages/blog/error.tsx',
+      '/project/src/pages/blog/index.tsx',
+      '/project/src/pages/settings/layout.tsx',
+      '/project/src/pages/settings/error.tsx',
+      '/project/src/pages/settings/profile.sync.tsx',
+      '/project/src/pages/(main)/error.sync.tsx',
+      '/project/src/pages/(main)/home.tsx',
+      '/project/src/pages/(auth)/error.tsx',
+      '/project/src/pages/(auth)/login.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    const generatedContent = captureGeneratedContent()
+    expect(generatedContent).toBeTruthy()
+    expect(generatedContent!.content).toMatchSnapshot('error-boundary-routes')
+  })
+
+  it('should import loading files eagerly as the HydrateFallback of their layout', async () => {
+    const mockFiles = [
+      '/project/src/pages/blog/layout.tsx',
+      '/project/src/pages/blog/loading.tsx',
+      '/project/src/pages/blog/index.tsx',
+      '/project/src/pages/settings/layout.sync.tsx',
+      '/project/src/pages/settings/loading.sync.tsx',
+      '/project/src/pages/settings/profile.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    const generatedContent = captureGeneratedContent()
+    expect(generatedContent).toBeTruthy()
+    expect(generatedContent!.content).toMatchSnapshot(
+      'hydrate-fallback-routes',
+    )
+  })
+
+  it('should forward the detected route module exports of sync files', async () => {
+    const mockFiles = [
+      '/project/src/pages/about.sync.tsx',
+      '/project/src/pages/contact.sync.tsx',
+    ]
+    const sources: Record<string, string> = {
+      '/project/src/pages/about.sync.tsx': `
+export default function About() {}
+export async function action() {}
+export const shouldRevalidate = () => false
+export { ErrorBoundary, clientLoader } from './shared'
+`,
+      '/project/src/pages/contact.sync.tsx': `
+export function Component() {}
+export const handle = { title: 'Contact' }
+`,
+    }
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+    vi.mocked(fs.readFileSync).mockImplementation(
+      (path) => sources[path as string]!,
+    )
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    const generatedContent = captureGeneratedContent()
+    expect(generatedContent).toBeTruthy()
+    expect(generatedContent!.content).toContain(`  {
+    "id": "about",
+    "path": "about",
+    "Component": SyncComponent0.Component ?? SyncComponent0.default,
+    "action": SyncComponent0.action,
+    "shouldRevalidate": SyncComponent0.shouldRevalidate,
+    "ErrorBoundary": SyncComponent0.ErrorBoundary,
+    "clientLoader": SyncComponent0.clientLoader
+  },
+  {
+    "id": "contact",
+    "path": "contact",
+    "Component": SyncComponent1.Component ?? SyncComponent1.default,
+    "handle": SyncComponent1.handle
+  }`)
+  })
+
+  it('should serve routes as a virtual module in virtual mode', async () => {
+    const mockFiles = [
+      '/project/src/pages/index.tsx',
+      '/project/src/pages/about.sync.tsx',
+      '/project/src/pages/blog/[id].tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      virtual: true,
+      dtsPath: './src/routes.d.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    // only the type declarations are written to disk
+    const generatedContent = captureGeneratedContent()
+    expect(vi.mocked(fs.writeFileSync)).toHaveBeenCalledTimes(1)
+    expect(generatedContent!.filePath).toBe('/project/./src/routes.d.ts')
+    expect(generatedContent!.content).toMatchSnapshot('virtual-routes-dts')
+    // page types are imported relative to the declaration file
+    expect(generatedContent!.content).toContain(
+      'typeof import("./pages/about.sync")',
+    )
+    expect(generatedContent!.content).not.toContain('import("/project')
+
+    const resolveId = plugin.resolveId as (id: string) => string | undefined
+    const load = plugin.load as (id: string) => string | undefined
+    const resolvedId = resolveId('virtual:route-builder/routes')
+    expect(resolvedId).toBe('\0virtual:route-builder/routes')
+    expect(resolveId('./other')).toBeUndefined()
+    expect(load(resolvedId!)).toMatchSnapshot('virtual-routes-module')
+  })
+
+  it('should register page paths and params with React Router', async () => {
+    const mockFiles = [
+      '/project/src/pages/index.tsx',
+      '/project/src/pages/blog/[id].tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+    const generate = async (
+      options: Parameters<typeof routeBuilderPlugin>[0],
+    ) => {
+      const plugin = routeBuilderPlugin(options)
+      if (typeof plugin.configResolved === 'function') {
+        plugin.configResolved(mockConfig as any)
+      }
+      if (typeof plugin.buildStart === 'function') {
+        await plugin.buildStart.call({} as any, {} as any)
+      }
+      return captureGeneratedContent()!.content
+    }
+
+    const register = `module "react-router" {
+  interface Register {
+    pages: { [Path in RoutePath]: { params: RouteParams[Path] } }
+  }
+}`
+    const params = `export interface RouteParams {
+  "/": {}
+  "/blog/:id": { "id": string }
+}`
+
+    const content = await generate({ outputPath: './src/generated-routes.ts' })
+    expect(content).toContain(params)
+    expect(content).toContain(`declare ${register}`)
+    expect(content).toContain(`export function useRouteParams<P extends RoutePath>(
+  path: P,
+): RouteParams[P] {
+  return useParams()
+}`)
+
+    const declaration = await generate({
+      virtual: true,
+      dtsPath: './src/routes.d.ts',
+    })
+    const indented = (code: string) => code.replaceAll(/^(?=.)/gm, '  ')
+    expect(declaration).toContain(indented(params))
+    expect(declaration).toContain(indented(register))
+    expect(declaration).toContain(`  export function useRouteParams<P extends RoutePath>(
+    path: P,
+  ): RouteParams[P]`)
+  })
+
+  it('should validate search params of pages exporting a searchSchema', async () => {
+    const mockFiles = [
+      '/project/src/pages/products.sync.tsx',
+      '/project/src/pages/orders.sync.tsx',
+      '/project/src/pages/search.tsx',
+      '/project/src/pages/about.tsx',
+    ]
+    const sources: Record<string, string> = {
+      '/project/src/pages/products.sync.tsx': `
+export const searchSchema = z.object({ page: z.coerce.number() })
+export const loader = ({ search }) => fetchProducts(search.page)
+export default function Products() {}
+`,
+      '/project/src/pages/orders.sync.tsx': `
+export const searchSchema = (input) => ({ status: input.status ?? 'open' })
+export default function Orders() {}
+`,
+      '/project/src/pages/search.tsx': `
+export const searchSchema = v.object({ q: v.string() })
+export function Component() {}
+`,
+      '/project/src/pages/about.tsx': `
+export default function About() {}
+`,
+    }
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+    vi.mocked(fs.readFileSync).mockImplementation(
+      (path) => sources[path as string]!,
+    )
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    const generatedContent = captureGeneratedContent()!.content
+    expect(generatedContent).not.toContain('"searchSchema"')
+    expect(generatedContent).toMatchSnapshot()
+    expect(generatedContent).toContain(
+      'No searchSchema registered for route "${id}"',
+    )
+
+    const parseSearch = new Function(
+      `${/const parseSearch = [\s\S]*?\n}\n/.exec(generatedContent)![0]}
+return parseSearch`,
+    )() as (schema: unknown, searchParams: URLSearchParams) => unknown
+    const searchParams = new URLSearchParams('?tag=a&tag=b&q=shoes')
+    const invalid = (error: unknown) =>
+      error instanceof Response && error.status === 400
+
+    expect(parseSearch((input: unknown) => input, searchParams)).toEqual({
+      tag: ['a', 'b'],
+      q: 'shoes',
+    })
+    expect(() =>
+      parseSearch(
+        { '~standard': { validate: () => ({ issues: [{}] }) } },
+        searchParams,
+      ),
+    ).toThrow(expect.toSatisfy(invalid))
+    expect(() =>
+      parseSearch(
+        {
+          parse: () => {
+            throw new Error('invalid')
+          },
+        },
+        searchParams,
+      ),
+    ).toThrow(expect.toSatisfy(invalid))
+    // unusable schemas are bugs, not invalid user input
+    expect(() => parseSearch({}, searchParams)).toThrow(TypeError)
+    expect(() => parseSearch(undefined, searchParams)).toThrow(TypeError)
+
+    const virtualPlugin = routeBuilderPlugin({
+      virtual: true,
+      dtsPath: './src/routes.d.ts',
+    })
+    if (typeof virtualPlugin.configResolved === 'function') {
+      virtualPlugin.configResolved(mockConfig as any)
+    }
+    if (typeof virtualPlugin.buildStart === 'function') {
+      await virtualPlugin.buildStart.call({} as any, {} as any)
+    }
+
+    // page types are imported relative to the declaration file
+    const declaration = captureGeneratedContent()!.content
+    expect(declaration).toContain('export interface RouteSearchMap')
+    expect(declaration).toContain(
+      '"orders": SearchOf<typeof import("./pages/orders.sync").searchSchema>',
+    )
+    expect(declaration).not.toContain('import("/project')
+  })
+
+  it('should route MDX pages with their frontmatter as handle', async () => {
+    const mockFiles = [
+      '/project/src/pages/docs/intro.mdx',
+      '/project/src/pages/docs/faq.sync.mdx',
+    ]
+    const sources: Record<string, string> = {
+      '/project/src/pages/docs/intro.mdx': `---
+title: Introduction
+order: 1
+---
+
+# Introduction
+
+\`\`\`js
+export const notAnExport = true
+\`\`\`
+`,
+      '/project/src/pages/docs/faq.sync.mdx': `---
+title: FAQ
+---
+
+export const loader = () => null
+
+# FAQ
+`,
+    }
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+    vi.mocked(fs.readFileSync).mockImplementation(
+      (path) => sources[path as string]!,
+    )
+
+    const plugin = routeBuilderPlugin({
+      extensions: ['.tsx', '.mdx'],
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    expect(captureGeneratedContent()!.content).toMatchSnapshot()
+  })
+
+  it('should generate routes from flat file names', async () => {
+    const mockFiles = [
+      '/project/src/pages/_index.tsx',
+      '/project/src/pages/blog.tsx',
+      '/project/src/pages/blog.$slug.tsx',
+      '/project/src/pages/_auth.tsx',
+      '/project/src/pages/_auth.login.sync.tsx',
+      '/project/src/pages/settings._index.tsx',
+      '/project/src/pages/settings.profile/route.tsx',
+      '/project/src/pages/settings.profile/avatar.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      routeConvention: 'flat',
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    const { content } = captureGeneratedContent()!
+    expect(content).not.toContain('avatar')
+    expect(content).toMatchSnapshot()
+  })
+
+  it('should generate a framework mode route config', async () => {
+    const mockFiles = [
+      '/project/app/pages/index.tsx',
+      '/project/app/pages/(main)/layout.tsx',
+      '/project/app/pages/(main)/about.sync.tsx',
+      '/project/app/pages/(auth)/login.tsx',
+      '/project/app/pages/blog/layout.tsx',
+      '/project/app/pages/blog/index.tsx',
+      '/project/app/pages/blog/[slug].tsx',
+      '/project/app/pages/docs/[...path].mdx',
+      '/project/app/pages/settings/profile.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      target: 'framework',
+      extensions: ['.tsx', '.mdx'],
+      segmentGroupOrder: ['auth', 'main'],
+      outputPath: './app/routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    const generatedContent = captureGeneratedContent()
+    expect(generatedContent!.filePath).toContain('app/routes.ts')
+    expect(generatedContent!.content).toMatchSnapshot()
+  })
+
+  it('should reject the framework target in virtual mode', () => {
+    expect(() =>
+      routeBuilderPlugin({ target: 'framework', virtual: true }),
+    ).toThrow('The framework target cannot be served as a virtual module')
+  })
+
+  it('should generate Vue Router routes', async () => {
+    const mockFiles = [
+      '/project/src/pages/index.vue',
+      '/project/src/pages/(main)/layout.sync.vue',
+      '/project/src/pages/(main)/about.vue',
+      '/project/src/pages/(auth)/login.vue',
+      '/project/src/pages/users/[id].vue',
+      '/project/src/pages/docs/[[lang]]/intro.vue',
+      '/project/src/pages/not-found.vue',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      target: 'vue-router',
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(glob.default.sync).toHaveBeenCalledWith(
+      './pages/**/*.{vue,sync.vue}',
+      {
+        cwd: '/project',
+        absolute: true,
+      },
+    )
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    expect(captureGeneratedContent()!.content).toMatchSnapshot()
+  })
+
+  it('should generate a TanStack Router route tree', async () => {
+    const mockFiles = [
+      '/project/src/pages/index.tsx',
+      '/project/src/pages/(main)/layout.tsx',
+      '/project/src/pages/(main)/error.tsx',
+      '/project/src/pages/(main)/loading.tsx',
+      '/project/src/pages/(main)/about.sync.tsx',
+      '/project/src/pages/(auth)/error.tsx',
+      '/project/src/pages/(auth)/login.tsx',
+      '/project/src/pages/(marketing)/pricing.tsx',
+      '/project/src/pages/blog/layout.tsx',
+      '/project/src/pages/blog/[slug].tsx',
+      '/project/src/pages/docs/[[lang]]/intro.tsx',
+      '/project/src/pages/files/[...path].tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      target: 'tanstack-router',
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    const { content } = captureGeneratedContent()!
+    expect(content).toMatchSnapshot()
+    // a group without a layout keeps its error file on a pathless route
+    expect(content).toMatch(
+      /id: "_auth",\n {2}errorComponent: lazyComponent\(lazy\d+, "ErrorBoundary"\),/,
+    )
+    // and without any convention file, it adds nothing to the tree
+    expect(content).not.toContain('"_marketing"')
+  })
+
+  it('should generate routes with a custom emitter', async () => {
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue([
+      '/project/src/pages/about.tsx',
+    ])
+
+    const emit = vi.fn(
+      ({ routes, fileToImportMap }: RouteEmitterContext) =>
+        `export default ${JSON.stringify({
+          paths: routes.map((route) => route.path),
+          files: Object.keys(fileToImportMap),
+        })}`,
+    )
+    const plugin = routeBuilderPlugin({
+      target: { name: 'custom', emit },
+      outputPath: './src/generated-routes.ts',
+    })
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved({
+        command: 'build',
+        root: '/project',
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      } as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(emit).toHaveBeenCalledOnce()
+    expect(captureGeneratedContent()!.content).toBe(
+      'export default {"paths":["about"],"files":["./pages/about.tsx"]}',
+    )
+    expect(() =>
+      routeBuilderPlugin({ target: { name: 'custom', emit }, virtual: true }),
+    ).toThrow('The custom target cannot be served as a virtual module')
+  })
+
+  it('should merge multiple sources under their mount prefixes', async () => {
+    const filesByPattern: Record<string, string[]> = {
+      './src/pages/**/*.{tsx,sync.tsx}': [
+        '/project/src/pages/index.tsx',
+        '/project/src/pages/about.tsx',
+      ],
+      './packages/admin/pages/**/*.{tsx,sync.tsx}': [
+        '/project/packages/admin/pages/index.tsx',
+        '/project/packages/admin/pages/users/[id].sync.tsx',
+      ],
+      './packages/docs/pages/**/*.tsx': [
+        '/project/packages/docs/pages/intro.tsx',
+      ],
+    }
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockImplementation(
+      (pattern) => filesByPattern[pattern as string] ?? [],
+    )
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+      sources: [
+        { pattern: './src/pages/**/*.{tsx,sync.tsx}' },
+        {
+          pattern: './packages/admin/pages/**/*.{tsx,sync.tsx}',
+          prefix: '/admin',
+          layout: './packages/admin/AdminLayout.tsx',
+        },
+        { pattern: './packages/docs/pages/**/*.tsx', prefix: '/docs' },
+      ],
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    const generatedContent = captureGeneratedContent()
+    expect(generatedContent).toBeTruthy()
+    expect(generatedContent!.content).toMatchSnapshot('multiple-sources')
+  })
+
+  it('should index a page added in dev under the source matching it', async () => {
+    const filesByPattern: Record<string, string[]> = {
+      './pages/**/*.tsx': ['/project/pages/index.tsx'],
+      './packages/admin/pages/**/*.tsx': [
+        '/project/packages/admin/pages/index.tsx',
+      ],
+    }
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockImplementation(
+      (pattern) => filesByPattern[pattern as string] ?? [],
+    )
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+      sources: [
+        { pattern: './pages/**/*.tsx' },
+        { pattern: './packages/admin/pages/**/*.tsx', prefix: '/admin' },
+      ],
+    })
+
+    const mockWatcher = {
+      add: vi.fn(),
+      on: vi.fn(),
+    }
+
+    const mockServer = {
+      watcher: mockWatcher,
+      ws: {
+        send: vi.fn(),
+        on: vi.fn(),
+      },
+    }
+
+    const mockConfig = {
+      command: 'serve' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+    if (typeof plugin.configureServer === 'function') {
+      plugin.configureServer(mockServer as any)
+    }
+    const handleFileAdd = mockWatcher.on.mock.calls.find(
+      ([event]) => event === 'add',
+    )![1] as (path: string) => void
+
+    // both base directories end in `pages`, only the admin pattern matches
+    handleFileAdd('/project/packages/admin/pages/users.tsx')
+
+    const { content } = captureGeneratedContent()!
+    expect(content).toContain('"path": "admin"')
+    expect(content.match(/"path": "users"/g)).toHaveLength(1)
+    expect(content).not.toContain('"path": "packages"')
+    expect(mockServer.ws.send).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'routes-updated' }),
+    )
+  })
+
+  it('should fail on routes defined by more than one source', async () => {
+    const filesByPattern: Record<string, string[]> = {
+      './src/pages/**/*.tsx': ['/project/src/pages/admin/index.tsx'],
+      './packages/admin/pages/**/*.tsx': [
+        '/project/packages/admin/pages/index.sync.tsx',
+      ],
+    }
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockImplementation(
+      (pattern) => filesByPattern[pattern as string] ?? [],
+    )
+
+    const plugin = routeBuilderPlugin({
+      sources: [
+        { pattern: './src/pages/**/*.tsx' },
+        { pattern: './packages/admin/pages/**/*.tsx', prefix: '/admin' },
+      ],
+    })
+
+    const mockConfig = {
+      command: 'build' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    expect(() =>
+      (plugin.buildStart as () => void).call({} as any),
+    ).toThrowError(
+      'Route conflict between sources: /project/src/pages/admin/index.tsx (./src/pages/**/*.tsx) and /project/packages/admin/pages/index.sync.tsx (./packages/admin/pages/**/*.tsx) both map to ./pages/admin/index',
+    )
+  })
+
+  it('should report colliding routes and fail the build on them', async () => {
+    const mockFiles = [
+      '/project/src/pages/about.tsx',
+      '/project/src/pages/about/index.tsx',
+      '/project/src/pages/(main)/index.tsx',
+      '/project/src/pages/(marketing)/index.sync.tsx',
+      '/project/src/pages/contact.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const createPlugin = (command: 'build' | 'serve') => {
+      const plugin = routeBuilderPlugin({
+        outputPath: './src/generated-routes.ts',
+      })
+      const logger = {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      }
+      if (typeof plugin.configResolved === 'function') {
+        plugin.configResolved({ command, root: '/project', logger } as any)
+      }
+      return { plugin, logger }
+    }
+
+    const build = createPlugin('build')
+    expect(() =>
+      (build.plugin.buildStart as () => void).call({} as any),
+    ).toThrowError('Found 2 route conflict(s): /, /about')
+    expect(build.logger.error).toHaveBeenCalledWith(
+      `[route-builder-v2] Route conflict: 2 files map to /
+  - src/pages/(main)/index.tsx
+  - src/pages/(marketing)/index.sync.tsx`,
+    )
+    expect(build.logger.error).toHaveBeenCalledWith(
+      `[route-builder-v2] Route conflict: 2 files map to /about
+  - src/pages/about.tsx
+  - src/pages/about/index.tsx`,
+    )
+    expect(vi.mocked(fs.writeFileSync)).not.toHaveBeenCalled()
+
+    // the dev server keeps running on the reported conflicts
+    const dev = createPlugin('serve')
+    ;(dev.plugin.buildStart as () => void).call({} as any)
+    expect(dev.logger.error).toHaveBeenCalledTimes(2)
+    expect(captureGeneratedContent()!.content).toContain('"path": "contact"')
+  })
+
+  it('should fail the build on unresolved routes in strict mode', async () => {
+    const validFiles = [
+      '/project/src/pages/index.tsx',
+      '/project/src/pages/(main)/layout.tsx',
+      '/project/src/pages/(main)/error.tsx',
+      '/project/src/pages/(main)/home.sync.tsx',
+      '/project/src/pages/blog/layout.tsx',
+      '/project/src/pages/blog/loading.tsx',
+      '/project/src/pages/blog/index.tsx',
+      '/project/src/pages/blog/[id].tsx',
+      '/project/src/pages/docs/[...slug]/index.tsx',
+      '/project/src/pages/[[lang]]/about.tsx',
+      '/project/src/pages/not-found.tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    const runBuild = (files: string[]) => {
+      vi.mocked(glob.default.sync).mockReturnValue(files)
+      const plugin = routeBuilderPlugin({
+        outputPath: './src/generated-routes.ts',
+        strict: true,
+      })
+      if (typeof plugin.configResolved === 'function') {
+        plugin.configResolved({
+          command: 'build',
+          root: '/project',
+          logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+        } as any)
+      }
+      ;(plugin.buildStart as () => void).call({} as any)
+    }
+
+    expect(() => runBuild(validFiles)).not.toThrow()
+
+    expect(() =>
+      runBuild([
+        ...validFiles,
+        '/project/src/pages/team.tsx',
+        '/project/src/pages/team/[member].tsx',
+        '/project/src/pages/(empty)/error.tsx',
+      ]),
+    ).toThrowError(
+      `Strict mode found 2 route problem(s):
+  - Route ./pages/(empty) has no page below it to render
+  - Page file ./pages/team.tsx is not used by any route`,
+    )
+  })
+
+  it('should check the exports of page modules', async () => {
+    const sources: Record<string, string> = {
+      '/project/src/pages/(main)/layout.tsx': `
+import { Outlet } from 'react-router'
+export default function Main() { return <Outlet /> }
+`,
+      '/project/src/pages/(main)/home.tsx': `
+export function Component() {}
+export const loader = () => null
+`,
+      '/project/src/pages/(main)/stats.tsx': `
+export const loader = () => null
+`,
+      '/project/src/pages/(main)/orders.tsx': `
+export default function Orders() {}
+export async function Loader() {}
+`,
+      '/project/src/pages/settings/layout.tsx': `
+export default function Settings() { return <nav /> }
+`,
+      '/project/src/pages/settings/index.tsx': `
+export default function General() {}
+`,
+      '/project/src/pages/account/layout.tsx': `
+export const loader = () => null
+`,
+      '/project/src/pages/account/index.tsx': `
+export default function Account() {}
+`,
+    }
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(Object.keys(sources))
+    vi.mocked(fs.readFileSync).mockImplementation(
+      (path) => sources[path as string]!,
+    )
+
+    const runBuild = (strict: boolean) => {
+      const plugin = routeBuilderPlugin({
+        outputPath: './src/generated-routes.ts',
+        strict,
+      })
+      const logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+      if (typeof plugin.configResolved === 'function') {
+        plugin.configResolved({
+          command: 'build',
+          root: '/project',
+          logger,
+        } as any)
+      }
+      ;(plugin.buildStart as () => void).call({} as any)
+      return logger
+    }
+
+    const issues = [
+      'Layout file ./pages/settings/layout.tsx does not render an <Outlet />, its child routes will not show',
+      'Page file ./pages/(main)/orders.tsx exports "Loader", did you mean "loader"?',
+      'Page file ./pages/(main)/stats.tsx exports neither Component nor a default export',
+    ]
+
+    const logger = runBuild(false)
+    expect(logger.warn.mock.calls).toEqual(
+      issues.map((issue) => [`[route-builder-v2] ${issue}`]),
+    )
+    expect(captureGeneratedContent()).toBeTruthy()
+
+    expect(() => runBuild(true)).toThrowError(
+      `Strict mode found 3 route problem(s):\n${issues.map((issue) => `  - ${issue}`).join('\n')}`,
+    )
+  })
+
+  it('should fail the build on missing source layouts in strict mode', async () => {
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue([
+      '/project/packages/admin/pages/index.tsx',
+    ])
+    vi.mocked(fs.existsSync).mockReturnValue(false)
+
+    const plugin = routeBuilderPlugin({
+      sources: [
+        {
+          pattern: './packages/admin/pages/**/*.tsx',
+          prefix: '/admin',
+          layout: './packages/admin/layout.tsx',
+        },
+      ],
+      strict: true,
+    })
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved({
+        command: 'build',
+        root: '/project',
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      } as any)
+    }
+
+    expect(() =>
+      (plugin.buildStart as () => void).call({} as any),
+    ).toThrowError(
+      `Strict mode found 1 route problem(s):
+  - Source layout ./packages/admin/layout.tsx does not exist`,
+    )
+    expect(fs.existsSync).toHaveBeenCalledWith(
+      '/project/./packages/admin/layout.tsx',
+    )
+  })
+
+  it('should show generation errors in the dev error overlay', async () => {
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue([
+      '/project/src/pages/about.tsx',
+      '/project/src/pages/about/[section].tsx',
+    ])
+
+    const plugin = routeBuilderPlugin({
+      outputPath: './src/generated-routes.ts',
+      strict: true,
+    })
+    const mockServer = {
+      watcher: { add: vi.fn(), on: vi.fn() },
+      ws: { send: vi.fn(), on: vi.fn() },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved({
+        command: 'serve',
+        root: '/project',
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      } as any)
+    }
+    if (typeof plugin.configureServer === 'function') {
+      plugin.configureServer(mockServer as any)
+    }
+    expect(() =>
+      (plugin.buildStart as () => void).call({} as any),
+    ).not.toThrow()
+
+    const overlayError = {
+      type: 'error',
+      err: expect.objectContaining({
+        message: expect.stringContaining(
+          'Page file ./pages/about.tsx is not used by any route',
+        ),
+        plugin: 'vite-plugin-route-builder-v2',
+      }),
+    }
+    expect(mockServer.ws.send).toHaveBeenCalledWith(overlayError)
+    expect(vi.mocked(fs.writeFileSync)).not.toHaveBeenCalled()
+
+    // clients connecting later still get the error
+    mockServer.ws.send.mockClear()
+    const [event, onConnection] = mockServer.ws.on.mock.calls[0]!
+    expect(event).toBe('connection')
+    onConnection()
+    expect(mockServer.ws.send).toHaveBeenCalledWith(overlayError)
+  })
+
+  it('should show invalid frontmatter of an edited MDX page in the dev error overlay', async () => {
+    const sources: Record<string, string> = {
+      '/project/src/pages/intro.mdx': `---
+title: Introduction
+---
+
+# Introduction
+`,
+    }
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(Object.keys(sources))
+    vi.mocked(fs.readFileSync).mockImplementation((path) => {
+      if (sources[path as string]) return sources[path as string]!
+      throw new Error('ENOENT')
+    })
+
+    const plugin = routeBuilderPlugin({
+      extensions: ['.tsx', '.mdx'],
+      outputPath: './src/generated-routes.ts',
+    })
+    const mockWatcher = { add: vi.fn(), on: vi.fn() }
+    const mockServer = {
+      watcher: mockWatcher,
+      ws: { send: vi.fn(), on: vi.fn() },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved({
+        command: 'serve',
+        root: '/project',
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      } as any)
+    }
+    if (typeof plugin.configureServer === 'function') {
+      plugin.configureServer(mockServer as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+    expect(captureGeneratedContent()!.content).toContain('"Introduction"')
+
+    const onChange = mockWatcher.on.mock.calls.find(
+      ([event]) => event === 'change',
+    )![1] as (path: string) => void
+    sources['/project/src/pages/intro.mdx'] = `---
+title: [Introduction
+---
+`
+    // the failed read of the edited page reaches the overlay, not the watcher
+    expect(() => onChange('/project/src/pages/intro.mdx')).not.toThrow()
+    expect(mockServer.ws.send).toHaveBeenCalledWith({
+      type: 'error',
+      err: expect.objectContaining({
+        message: expect.stringContaining(
+          'Invalid frontmatter in /project/src/pages/intro.mdx',
+        ),
+      }),
+    })
+  })
+
+  it('should derive keys, glob and watch filter from routesDir', async () => {
+    const mockFiles = [
+      '/project/src/routes/index.tsx',
+      '/project/src/routes/blog/[id].tsx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      routesDir: './src/routes/',
+      outputPath: './src/generated-routes.ts',
+      debug: true,
+    })
+
+    const mockWatcher = {
+      add: vi.fn(),
+      on: vi.fn(),
+    }
+
+    const mockServer = {
+      watcher: mockWatcher,
+      ws: {
+        send: vi.fn(),
+        on: vi.fn(),
+      },
+    }
+
+    const mockConfig = {
+      command: 'serve' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(glob.default.sync).toHaveBeenCalledWith(
+      './src/routes/**/*.{tsx,sync.tsx}',
+      {
+        cwd: '/project',
+        absolute: true,
+      },
+    )
+    expect(mockConfig.logger.info).toHaveBeenCalledWith(
+      expect.stringContaining('./src/routes/blog/[id].tsx'),
+    )
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+    expect(captureGeneratedContent()!.content).toContain('"path": ":id"')
+
+    if (typeof plugin.configureServer === 'function') {
+      plugin.configureServer(mockServer as any)
+    }
+    const handleFileChange = mockWatcher.on.mock.calls.find(
+      ([event]) => event === 'add',
+    )![1] as (path: string) => void
+
+    handleFileChange('/project/src/components/Button.tsx')
+    expect(mockServer.ws.send).not.toHaveBeenCalled()
+
+    handleFileChange('/project/src/routes/about.tsx')
+    expect(mockServer.ws.send).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'routes-updated' }),
+    )
+  })
+
+  it('should resolve and watch pages with custom extensions', async () => {
+    const mockFiles = [
+      '/project/pages/layout.sync.jsx',
+      '/project/pages/index.ts',
+      '/project/pages/docs/intro.mdx',
+    ]
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(mockFiles)
+
+    const plugin = routeBuilderPlugin({
+      extensions: ['.ts', '.jsx', '.mdx'],
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockWatcher = {
+      add: vi.fn(),
+      on: vi.fn(),
+    }
+
+    const mockServer = {
+      watcher: mockWatcher,
+      ws: {
+        send: vi.fn(),
+        on: vi.fn(),
+      },
+    }
+
+    const mockConfig = {
+      command: 'serve' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+
+    expect(glob.default.sync).toHaveBeenCalledWith(
+      './pages/**/*.{ts,sync.ts,jsx,sync.jsx,mdx,sync.mdx}',
+      {
+        cwd: '/project',
+        absolute: true,
+      },
+    )
+    expect(mockConfig.logger.warn).not.toHaveBeenCalled()
+
+    const { content } = captureGeneratedContent()!
+    expect(content).toContain(
+      'import * as SyncComponent0 from "../pages/layout.sync"',
+    )
+    expect(content).toContain('import("../pages/index")')
+    expect(content).toContain('import("../pages/docs/intro.mdx")')
+
+    if (typeof plugin.configureServer === 'function') {
+      plugin.configureServer(mockServer as any)
+    }
+    const handleFileChange = mockWatcher.on.mock.calls.find(
+      ([event]) => event === 'add',
+    )![1] as (path: string) => void
+
+    handleFileChange('/project/pages/docs/notes.tsx')
+    expect(mockServer.ws.send).not.toHaveBeenCalled()
+
+    handleFileChange('/project/pages/docs/setup.mdx')
+    expect(mockServer.ws.send).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'routes-updated' }),
+    )
+  })
+
+  it('should regenerate from the file index and skip unchanged routes in dev', async () => {
+    const sources: Record<string, string> = {
+      '/project/src/routes/index.sync.tsx': `
+export default function Home() {}
+`,
+      '/project/src/routes/about.tsx': `
+export default function About() {}
+`,
+    }
+
+    const glob = await import('fast-glob')
+    vi.mocked(glob.default.sync).mockReturnValue(Object.keys(sources))
+    // the route file on disk is whatever was written last
+    vi.mocked(fs.readFileSync).mockImplementation((path) => {
+      if (sources[path as string]) return sources[path as string]!
+      const written = captureGeneratedContent()
+      if (written && written.filePath === path) return written.content
+      throw new Error('ENOENT')
+    })
+
+    const plugin = routeBuilderPlugin({
+      routesDir: 'src/routes',
+      outputPath: './src/generated-routes.ts',
+    })
+
+    const mockWatcher = {
+      add: vi.fn(),
+      on: vi.fn(),
+    }
+
+    const mockServer = {
+      watcher: mockWatcher,
+      ws: {
+        send: vi.fn(),
+        on: vi.fn(),
+      },
+    }
+
+    const mockConfig = {
+      command: 'serve' as const,
+      root: '/project',
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      },
+    }
+
+    if (typeof plugin.configResolved === 'function') {
+      plugin.configResolved(mockConfig as any)
+    }
+    if (typeof plugin.buildStart === 'function') {
+      await plugin.buildStart.call({} as any, {} as any)
+    }
+    if (typeof plugin.configureServer === 'function') {
+      plugin.configureServer(mockServer as any)
+    }
+    const getHandler = (event: string) =>
+      mockWatcher.on.mock.calls.find(([name]) => name === event)![1] as (
+        path: string,
+      ) => void
+
+    expect(glob.default.sync).toHaveBeenCalledTimes(1)
+    expect(fs.writeFileSync).toHaveBeenCalledTimes(1)
+    expect(captureGeneratedContent()!.content).toContain('"path": "about"')
+
+    // an edit that keeps the exports of a page does not rebuild the routes
+    sources['/project/src/routes/index.sync.tsx'] = `
+export default function Home() { return 'home' }
+`
+    getHandler('change')('/project/src/routes/index.sync.tsx')
+    expect(mockConfig.logger.info).not.toHaveBeenCalledWith(
+      expect.stringContaining('Page file changed'),
+    )
+    expect(fs.writeFileSync).toHaveBeenCalledTimes(1)
+    expect(mockServer.ws.send).not.toHaveBeenCalled()
+
+    sources['/project/src/routes/index.sync.tsx'] = `
+export const loader = () => null
+export default function Home() { return 'home' }
+`
+    getHandler('change')('/project/src/routes/index.sync.tsx')
+    expect(fs.writeFileSync).toHaveBeenCalledTimes(2)
+    expect(captureGeneratedContent()!.content).toContain(
+      '"loader": SyncComponent0.loader',
+    )
+    expect(mockServer.ws.send).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'routes-updated' }),
+    )
+
+    getHandler('unlink')('/project/src/routes/about.tsx')
+    expect(fs.writeFileSync).toHaveBeenCalledTimes(3)
+    expect(captureGeneratedContent()!.content).not.toContain('"path": "about"')
+
+    getHandler('add')('/project/src/routes/contact.tsx')
+    expect(fs.writeFileSync).toHaveBeenCalledTimes(4)
+    expect(captureGeneratedContent()!.content).toContain('"path": "contact"')
+
+    // the index is updated per event instead of globbing the tree again
+    expect(glob.default.sync).toHaveBeenCalledTimes(1)
+  })
+
   describe('Generated Routes Snapshots', () => {
     it('should generate correct routes for mixed sync and async files', async () => {
       const mockFiles = [
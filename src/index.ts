@@ -1 +1,13 @@
+export {
+  reactRouterConfigEmitter,
+  reactRouterEmitter,
+  type RouteEmitter,
+  type RouteEmitterContext,
+  tanstackRouterEmitter,
+  vueRouterEmitter,
+} from './plugin/emitter'
+export {
+  type ExtendedRouteObject,
+  ROUTE_BUILDER_HANDLE,
+} from './utils/route-builder'
 export { routeBuilderPlugin } from './vite-plugin-route-builder'
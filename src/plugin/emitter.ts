@@ -0,0 +1,87 @@
+import type { ExtendedRouteObject } from '../utils/route-builder'
+import { generateRouteConfigContent } from './route-config'
+import {
+  generateRouteFileContent,
+  generateVirtualRouteDeclaration,
+  generateVirtualRouteModule,
+  type RouteFileOptions,
+} from './route-file'
+import { generateTanstackRouteFileContent } from './tanstack-router'
+import { generateVueRouteFileContent } from './vue-router'
+
+export interface RouteEmitterContext {
+  /** Framework-neutral route tree built by `buildGlobRoutes` */
+  routes: ExtendedRouteObject[]
+  /** Import specifier of each page file by route key, script extensions stripped */
+  fileToImportMap: Record<string, string>
+  /** Path of each page file by route key, relative to the output file, extension kept */
+  fileToRoutePathMap: Record<string, string>
+  /** Import specifier of each page file by route key, relative to the virtual module's type declarations */
+  fileToDeclarationImportMap: Record<string, string>
+  options: RouteFileOptions
+}
+
+/**
+ * Turns the route tree into the route module of a router framework
+ */
+export interface RouteEmitter {
+  name: string
+  /** Page file extensions used when the `extensions` option is not set */
+  extensions?: string[]
+  /** Code of the route file written to `outputPath` */
+  emit: (context: RouteEmitterContext) => string
+  /** Code and type declarations of the virtual routes module. Emitters without it do not support `virtual` */
+  emitVirtual?: (
+    context: RouteEmitterContext,
+    moduleId: string,
+  ) => { code: string; declaration: string }
+}
+
+export const reactRouterEmitter: RouteEmitter = {
+  name: 'route-objects',
+  emit: ({ routes, fileToImportMap, options }) =>
+    generateRouteFileContent(routes, fileToImportMap, options),
+  emitVirtual: (
+    { routes, fileToImportMap, fileToDeclarationImportMap, options },
+    moduleId,
+  ) => ({
+    code: generateVirtualRouteModule(routes, fileToImportMap, options),
+    declaration: generateVirtualRouteDeclaration(
+      routes,
+      moduleId,
+      fileToDeclarationImportMap,
+      options,
+    ),
+  }),
+}
+
+export const reactRouterConfigEmitter: RouteEmitter = {
+  name: 'framework',
+  emit: ({ routes, fileToRoutePathMap, options }) =>
+    generateRouteConfigContent(routes, fileToRoutePathMap, options),
+}
+
+export const vueRouterEmitter: RouteEmitter = {
+  name: 'vue-router',
+  extensions: ['.vue'],
+  emit: ({ routes, fileToImportMap, options }) =>
+    generateVueRouteFileContent(routes, fileToImportMap, options),
+}
+
+export const tanstackRouterEmitter: RouteEmitter = {
+  name: 'tanstack-router',
+  emit: ({ routes, fileToImportMap, options }) =>
+    generateTanstackRouteFileContent(routes, fileToImportMap, options),
+}
+
+export const BUILT_IN_EMITTERS = {
+  'route-objects': reactRouterEmitter,
+  framework: reactRouterConfigEmitter,
+  'vue-router': vueRouterEmitter,
+  'tanstack-router': tanstackRouterEmitter,
+} satisfies Record<string, RouteEmitter>
+
+export type RouteTarget = keyof typeof BUILT_IN_EMITTERS | RouteEmitter
+
+export const resolveRouteEmitter = (target: RouteTarget): RouteEmitter =>
+  typeof target === 'string' ? BUILT_IN_EMITTERS[target] : target
@@ -0,0 +1,66 @@
+import { parse as parseYaml } from 'yaml'
+
+import { parseModuleExports, readSourceFile } from './module-exports'
+
+export const MDX_EXTENSION = '.mdx'
+
+export const isMdxFile = (fileKey: string) => fileKey.endsWith(MDX_EXTENSION)
+
+const FRONTMATTER_PATTERN = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/
+const FENCED_CODE_PATTERN = /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?^\1[ \t]*$/gm
+
+/**
+ * Read the YAML frontmatter of an MDX source.
+ * Returns `undefined` when the source has no frontmatter, and throws on invalid YAML
+ * or frontmatter that is not a mapping.
+ */
+export function parseFrontmatter(
+  source: string,
+): Record<string, unknown> | undefined {
+  const match = FRONTMATTER_PATTERN.exec(source)
+  if (!match) return undefined
+
+  const frontmatter: unknown = parseYaml(match[1]!)
+  if (frontmatter == null) return {}
+  if (typeof frontmatter !== 'object' || Array.isArray(frontmatter)) {
+    throw new TypeError('Frontmatter must be a mapping of keys to values')
+  }
+  return frontmatter as Record<string, unknown>
+}
+
+/**
+ * Statically read an MDX page: its frontmatter and module exports.
+ * The compiled document is always the default export.
+ */
+export function readMdxModule(filePath: string):
+  | {
+      frontmatter: Record<string, unknown> | undefined
+      exports: string[] | undefined
+    }
+  | undefined {
+  const source = readSourceFile(filePath)
+  if (source === undefined) return undefined
+
+  // code samples in the document must not count as exports
+  const body = source
+    .replace(FRONTMATTER_PATTERN, '')
+    .replaceAll(FENCED_CODE_PATTERN, '')
+  const exports = parseModuleExports(body)
+
+  let frontmatter: Record<string, unknown> | undefined
+  try {
+    frontmatter = parseFrontmatter(source)
+  } catch (error) {
+    throw new Error(
+      `Invalid frontmatter in ${filePath}: ${(error as Error).message}`,
+    )
+  }
+
+  return {
+    frontmatter,
+    exports: exports && [
+      'default',
+      ...exports.filter((name) => name !== 'default'),
+    ],
+  }
+}
@@ -0,0 +1,137 @@
+import { readFileSync } from 'node:fs'
+
+const EXPORT_DECLARATION_PATTERNS = [
+  /\bexport\s+(?:declare\s+)?(?:async\s+)?function\s*\*?\s*([\w$]+)/g,
+  /\bexport\s+(?:declare\s+)?(?:abstract\s+)?class\s+([\w$]+)/g,
+  /\bexport\s+(?:declare\s+)?(?:const\s+)?enum\s+([\w$]+)/g,
+  /\bexport\s+(?:declare\s+)?(?:const|let|var)\s+([\w$]+)/g,
+  /\bexport\s+\*\s+as\s+([\w$]+)/g,
+]
+
+const VARIABLE_EXPORT_PATTERN = /\bexport\s+(?:declare\s+)?(?:const|let|var)\s+/g
+
+const QUOTES = new Set(['"', "'", '`'])
+
+// drop comments and empty string literals, so neither can look like an export
+const stripCommentsAndStrings = (source: string) => {
+  let code = ''
+  let index = 0
+
+  while (index < source.length) {
+    const char = source[index]!
+    const next = source[index + 1]
+
+    if (char === '/' && next === '/') {
+      const end = source.indexOf('\n', index)
+      index = end === -1 ? source.length : end
+    } else if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', index + 2)
+      index = end === -1 ? source.length : end + 2
+      code += ' '
+    } else if (QUOTES.has(char)) {
+      let end = index + 1
+      while (end < source.length && source[end] !== char) {
+        // an unterminated quote (e.g. in a regex literal) only spans its line
+        if (char !== '`' && source[end] === '\n') break
+        end += source[end] === '\\' ? 2 : 1
+      }
+      code += `${char}${char}`
+      index = source[end] === char ? end + 1 : end
+    } else {
+      code += char
+      index += 1
+    }
+  }
+
+  return code
+}
+
+// whether a `const`/`let`/`var` statement starting at `start` declares several
+// names (`a = 1, b = 2`), where only the first would be found
+const hasSeveralDeclarators = (code: string, start: number) => {
+  let depth = 0
+  // commas of type arguments (`Map<string, number>`) only occur before the initializer
+  let inInitializer = false
+
+  for (let index = start; index < code.length; index++) {
+    const char = code[index]!
+    if (char === '=' && code[index + 1] === '>') {
+      index++
+    } else if ('([{'.includes(char) || (!inInitializer && char === '<')) {
+      depth++
+    } else if (')]}'.includes(char) || (!inInitializer && char === '>')) {
+      depth--
+    } else if (depth === 0) {
+      if (char === '=') inInitializer = true
+      if (char === ',') return true
+      if (char === ';' || char === '\n') return false
+    }
+  }
+  return false
+}
+
+/**
+ * Collect the value export names of a module source with a lightweight scan.
+ * Returns `undefined` when they cannot be determined statically: `export * from`,
+ * destructured exports (`export const { a } = b`) and several declarators
+ * (`export const a = 1, b = 2`).
+ */
+export function parseModuleExports(source: string): string[] | undefined {
+  const code = stripCommentsAndStrings(source)
+
+  if (/\bexport\s+\*\s+from\b/.test(code)) {
+    return undefined
+  }
+
+  for (const match of code.matchAll(VARIABLE_EXPORT_PATTERN)) {
+    const declaration = match.index + match[0].length
+    if (
+      /[[{]/.test(code[declaration] ?? '') ||
+      hasSeveralDeclarators(code, declaration)
+    ) {
+      return undefined
+    }
+  }
+
+  const found: { index: number; name: string }[] = []
+
+  for (const pattern of EXPORT_DECLARATION_PATTERNS) {
+    for (const match of code.matchAll(pattern)) {
+      found.push({ index: match.index, name: match[1]! })
+    }
+  }
+
+  for (const match of code.matchAll(/\bexport\s+default\b/g)) {
+    found.push({ index: match.index, name: 'default' })
+  }
+
+  // `export { a, b as c }` and `export { a } from './a'`, skipping type-only specifiers
+  for (const match of code.matchAll(/\bexport\s+(type\s+)?\{([^}]*)\}/g)) {
+    if (match[1]) continue
+
+    for (const specifier of match[2]!.split(',')) {
+      const parts = specifier.trim().split(/\s+/)
+      if (!parts[0] || parts[0] === 'type') continue
+      found.push({ index: match.index, name: parts.at(-1)! })
+    }
+  }
+
+  const names = found
+    .sort((a, b) => a.index - b.index)
+    .map(({ name }) => name)
+  return [...new Set(names)]
+}
+
+/** Read a source file, `undefined` when it cannot be read */
+export function readSourceFile(filePath: string): string | undefined {
+  try {
+    return readFileSync(filePath, 'utf-8')
+  } catch {
+    return undefined
+  }
+}
+
+export function readModuleExports(filePath: string): string[] | undefined {
+  const source = readSourceFile(filePath)
+  return source === undefined ? undefined : parseModuleExports(source)
+}
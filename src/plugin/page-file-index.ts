@@ -0,0 +1,110 @@
+import { isDeepStrictEqual } from 'node:util'
+
+import glob from 'fast-glob'
+import { relative } from 'pathe'
+import picomatch from 'picomatch'
+
+/**
+ * In-memory index of the page files, so the dev server does not re-glob and re-read
+ * the whole page tree on every file event.
+ */
+export interface PageFileIndex {
+  /** Absolute paths of the page files matched by a glob pattern, globbed on first use */
+  list: (pattern: string) => string[]
+  /** Record a created page file in the patterns matching it, returns whether any did */
+  add: (absolutePath: string) => boolean
+  /** Forget a deleted page file, returns whether it was indexed */
+  remove: (absolutePath: string) => boolean
+  /** Read an edited page file again, returns whether anything read from it changed */
+  refresh: (absolutePath: string) => boolean
+  /** Read something from an indexed page file once, until the file is invalidated */
+  cached: <T>(absolutePath: string, kind: string, read: () => T) => T
+}
+
+export function createPageFileIndex(root: string): PageFileIndex {
+  const filesByPattern = new Map<string, Set<string>>()
+  const matchers = new Map<string, picomatch.Matcher>()
+  const reads = new Map<
+    string,
+    Map<string, { read: () => unknown; value: unknown }>
+  >()
+
+  const isIndexed = (absolutePath: string) =>
+    [...filesByPattern.values()].some((files) => files.has(absolutePath))
+
+  // created files are matched like the glob matches them, relative to the root
+  const isInPattern = (absolutePath: string, pattern: string) => {
+    let isMatch = matchers.get(pattern)
+    if (!isMatch) {
+      isMatch = picomatch(pattern)
+      matchers.set(pattern, isMatch)
+    }
+    return isMatch(relative(root, absolutePath).replace(/^\.?\//, ''))
+  }
+
+  return {
+    list(pattern) {
+      let files = filesByPattern.get(pattern)
+      if (!files) {
+        files = new Set(glob.sync(pattern, { cwd: root, absolute: true }))
+        filesByPattern.set(pattern, files)
+      }
+      return [...files]
+    },
+
+    add(absolutePath) {
+      let added = false
+      filesByPattern.forEach((files, pattern) => {
+        if (isInPattern(absolutePath, pattern)) {
+          files.add(absolutePath)
+          added = true
+        }
+      })
+      reads.delete(absolutePath)
+      return added
+    },
+
+    remove(absolutePath) {
+      let removed = false
+      filesByPattern.forEach((files) => {
+        removed = files.delete(absolutePath) || removed
+      })
+      reads.delete(absolutePath)
+      return removed
+    },
+
+    // most edits leave the exports and frontmatter of a page as they were
+    refresh(absolutePath) {
+      const fileReads = reads.get(absolutePath)
+      if (!fileReads) return false
+      try {
+        let changed = false
+        fileReads.forEach((entry) => {
+          const value = entry.read()
+          changed ||= !isDeepStrictEqual(value, entry.value)
+          entry.value = value
+        })
+        return changed
+      } catch {
+        // e.g. invalid frontmatter, which the next generation reads again and reports
+        reads.delete(absolutePath)
+        return true
+      }
+    },
+
+    cached(absolutePath, kind, read) {
+      // files outside the index (e.g. source layouts) are not watched, so never cached
+      if (!isIndexed(absolutePath)) return read()
+
+      let fileReads = reads.get(absolutePath)
+      if (!fileReads) {
+        fileReads = new Map()
+        reads.set(absolutePath, fileReads)
+      }
+      if (!fileReads.has(kind)) {
+        fileReads.set(kind, { read, value: read() })
+      }
+      return fileReads.get(kind)!.value as ReturnType<typeof read>
+    },
+  }
+}
@@ -0,0 +1,100 @@
+import type { Logger } from 'vite'
+
+import {
+  DEFAULT_EXTENSIONS,
+  type ExtendedRouteObject,
+  ROUTE_BUILDER_HANDLE,
+} from '../utils/route-builder'
+import { indent, resolveMatchedKey } from './route-file'
+
+interface RouteConfigOptions {
+  logger: Logger
+  /** Page file extensions, in resolution order */
+  extensions?: string[]
+}
+
+const renderChildren = (entries: string[]) =>
+  entries.length ? `[\n${indent(entries.join(',\n'), '  ')},\n]` : '[]'
+
+/**
+ * React Router framework mode route config (`app/routes.ts`), built from the same route tree.
+ * Paths in `fileToRoutePathMap` are the page files relative to the config file, with their extension.
+ */
+export function generateRouteConfigContent(
+  routes: ExtendedRouteObject[],
+  fileToRoutePathMap: Record<string, string>,
+  options: RouteConfigOptions,
+): string {
+  const { logger, extensions = DEFAULT_EXTENSIONS } = options
+  const usedHelpers = new Set<'index' | 'layout' | 'prefix' | 'route'>()
+
+  function renderRoutes(routes: ExtendedRouteObject[]): string[] {
+    return routes.flatMap((route) => {
+      const metadata = route[ROUTE_BUILDER_HANDLE]
+      const path = route.path ?? ''
+      const children = route.children ? renderRoutes(route.children) : []
+
+      if (metadata?.errorBoundary || metadata?.hydrateFallback) {
+        logger.warn(
+          `[route-builder-v2] error and loading files are not supported by the framework route config, export ErrorBoundary / HydrateFallback from the route module instead: ${metadata.fs}`,
+        )
+      }
+
+      const matchedKey =
+        route.lazy && metadata?.fs
+          ? resolveMatchedKey(
+              metadata.fs,
+              metadata.isSync,
+              fileToRoutePathMap,
+              extensions,
+            )
+          : undefined
+      const file = matchedKey && fileToRoutePathMap[matchedKey]
+
+      if (!file) {
+        if (route.lazy && metadata?.fs) {
+          logger.warn(
+            `[route-builder-v2] No matching file for route: ${metadata.fs}`,
+          )
+        }
+        // directories without a layout only contribute their path
+        if (!path) return children
+        usedHelpers.add('prefix')
+        return [`...prefix(${JSON.stringify(path)}, ${renderChildren(children)})`]
+      }
+
+      const fileArgument = JSON.stringify(file)
+      if (route.index) {
+        usedHelpers.add('index')
+        return [`index(${fileArgument})`]
+      }
+      if (!route.children) {
+        usedHelpers.add('route')
+        return [`route(${JSON.stringify(path)}, ${fileArgument})`]
+      }
+
+      if (path) {
+        usedHelpers.add('route')
+        return [
+          `route(${JSON.stringify(path)}, ${fileArgument}, ${renderChildren(children)})`,
+        ]
+      }
+      usedHelpers.add('layout')
+      return [`layout(${fileArgument}, ${renderChildren(children)})`]
+    })
+  }
+
+  const config = renderChildren(renderRoutes(routes))
+  const helpers = [...usedHelpers].sort()
+
+  return `// This file is auto-generated by vite-plugin-route-builder
+// Do not edit manually
+/* eslint-disable */
+
+import {
+${['type RouteConfig', ...helpers].map((name) => `  ${name},`).join('\n')}
+} from "@react-router/dev/routes"
+
+export default ${config} satisfies RouteConfig
+`
+}
@@ -0,0 +1,167 @@
+import {
+  DEFAULT_EXTENSIONS,
+  type ExtendedRouteObject,
+  ROUTE_BUILDER_HANDLE,
+} from '../utils/route-builder'
+import { resolveMatchedKey } from './route-file'
+
+/**
+ * Find routes that would render nothing: routes whose page file cannot be resolved,
+ * branches without any route below them, and page files no route uses
+ * (e.g. `about.tsx` shadowed by an `about/` directory).
+ */
+export function findUnresolvedRoutes(
+  routes: ExtendedRouteObject[],
+  fileToImportMap: Record<string, string>,
+  extensions: string[] = DEFAULT_EXTENSIONS,
+): string[] {
+  const issues: string[] = []
+  const routedFiles = new Set<string>()
+
+  function visit(routes: ExtendedRouteObject[]) {
+    routes.forEach((route) => {
+      const metadata = route[ROUTE_BUILDER_HANDLE]
+
+      if (route.lazy && metadata?.fs) {
+        const matchedKey = resolveMatchedKey(
+          metadata.fs,
+          metadata.isSync,
+          fileToImportMap,
+          extensions,
+        )
+        if (matchedKey) {
+          routedFiles.add(matchedKey)
+        } else {
+          issues.push(`No page file found for route ${metadata.fs}`)
+        }
+      }
+
+      for (const key of [metadata?.errorBoundary, metadata?.hydrateFallback]) {
+        if (key) routedFiles.add(key)
+      }
+
+      if (route.children?.length === 0) {
+        issues.push(
+          `Route ${metadata?.fs ?? route.id} has no page below it to render`,
+        )
+      }
+      if (route.children) {
+        visit(route.children)
+      }
+    })
+  }
+
+  visit(routes)
+
+  for (const key of Object.keys(fileToImportMap)) {
+    if (!routedFiles.has(key)) {
+      issues.push(`Page file ${key} is not used by any route`)
+    }
+  }
+
+  return issues
+}
+
+// route module exports React Router reads, by lowercase name to catch wrong casing
+const ROUTE_MODULE_EXPORTS = new Map(
+  [
+    'Component',
+    'ErrorBoundary',
+    'HydrateFallback',
+    'loader',
+    'action',
+    'clientLoader',
+    'clientAction',
+    'handle',
+    'shouldRevalidate',
+    'meta',
+    'links',
+    'headers',
+  ].map((name) => [name.toLowerCase(), name]),
+)
+
+// other page types (e.g. `.vue`) follow the conventions of their framework
+const CHECKED_PAGE_FILE = /\.(?:[jt]sx?|mdx)$/
+
+const RENDERS_OUTLET = /<Outlet\b|\buseOutlet\s*\(/
+
+interface PageExportCheckOptions {
+  extensions?: string[]
+  /** Statically detected export names of a page file, `undefined` when unknown */
+  getModuleExports: (fileKey: string) => string[] | undefined
+  /** Source of a page file, `undefined` when it cannot be read */
+  readSource: (fileKey: string) => string | undefined
+}
+
+/**
+ * Find page modules React Router would silently render wrong: pages without a
+ * `Component` or default export, misspelled route exports (`Loader`), and layouts
+ * that never render their child routes through an `<Outlet />`.
+ */
+export function findPageExportIssues(
+  routes: ExtendedRouteObject[],
+  fileToImportMap: Record<string, string>,
+  options: PageExportCheckOptions,
+): string[] {
+  const {
+    extensions = DEFAULT_EXTENSIONS,
+    getModuleExports,
+    readSource,
+  } = options
+  const issues: string[] = []
+
+  function checkPageFile(fileKey: string, isLayout: boolean) {
+    const exportNames = getModuleExports(fileKey)
+    if (!exportNames || !CHECKED_PAGE_FILE.test(fileKey)) return
+
+    for (const name of exportNames) {
+      const expected = ROUTE_MODULE_EXPORTS.get(name.toLowerCase())
+      if (expected && expected !== name) {
+        issues.push(
+          `Page file ${fileKey} exports "${name}", did you mean "${expected}"?`,
+        )
+      }
+    }
+
+    const hasComponent =
+      exportNames.includes('Component') || exportNames.includes('default')
+    // a layout without a component renders its child routes by itself
+    if (!isLayout && !hasComponent) {
+      issues.push(
+        `Page file ${fileKey} exports neither Component nor a default export`,
+      )
+    }
+    if (isLayout && hasComponent) {
+      const source = readSource(fileKey)
+      if (source !== undefined && !RENDERS_OUTLET.test(source)) {
+        issues.push(
+          `Layout file ${fileKey} does not render an <Outlet />, its child routes will not show`,
+        )
+      }
+    }
+  }
+
+  function visit(routes: ExtendedRouteObject[]) {
+    routes.forEach((route) => {
+      const metadata = route[ROUTE_BUILDER_HANDLE]
+      if (route.lazy && metadata?.fs) {
+        const matchedKey = resolveMatchedKey(
+          metadata.fs,
+          metadata.isSync,
+          fileToImportMap,
+          extensions,
+        )
+        if (matchedKey) {
+          checkPageFile(matchedKey, !!route.children)
+        }
+      }
+
+      if (route.children) {
+        visit(route.children)
+      }
+    })
+  }
+
+  visit(routes)
+  return issues
+}
@@ -3,9 +3,13 @@ import { inspect } from 'node:util'
 import type { Logger } from 'vite'
 
 import {
+  DEFAULT_EXTENSIONS,
   type ExtendedRouteObject,
+  parseRouteFileKey,
   ROUTE_BUILDER_HANDLE,
+  SYNC_MARKER,
 } from '../utils/route-builder'
+import { isMdxFile } from './mdx'
 
 type RouteWithInternalHandle = ExtendedRouteObject & {
   [ROUTE_BUILDER_HANDLE]?: ExtendedRouteObject[typeof ROUTE_BUILDER_HANDLE]
@@ -18,74 +22,109 @@ type SerializableRouteObject = Omit<
   lazy?: string | (() => Promise<unknown>)
   Component?: string
   loader?: string
+  ErrorBoundary?: string
+  HydrateFallback?: string
   children?: SerializableRouteObject[]
   [key: string]: unknown
 }
 
-interface RouteFileOptions {
+export interface RouteFileOptions {
   debug: boolean
   logger: Logger
+  /** Statically detected export names of a page file, `undefined` when unknown */
+  getModuleExports?: (fileKey: string) => string[] | undefined
+  /** Page file extensions, in resolution order */
+  extensions?: string[]
+  /** Frontmatter of an MDX page, used as its route `handle` */
+  getFrontmatter?: (fileKey: string) => Record<string, unknown> | undefined
 }
 
-const resolveMatchedKey = (
+// Route object keys React Router refuses from a route module, same as for `lazy`
+const NON_ROUTE_EXPORTS = new Set([
+  'default',
+  'lazy',
+  'caseSensitive',
+  'path',
+  'id',
+  'index',
+  'children',
+])
+
+// Used when a sync module's exports cannot be determined statically
+const FALLBACK_SYNC_EXPORTS = ['Component', 'loader', 'handle']
+
+// Validates the URL search params of a page, see `withSearchValidation`
+const SEARCH_SCHEMA_EXPORT = 'searchSchema'
+
+const syncRouteProperties = (
+  syncImportName: string,
+  exportNames: string[] | undefined,
+): Record<string, string> => {
+  const names = exportNames ?? FALLBACK_SYNC_EXPORTS
+  const properties: Record<string, string> = {}
+
+  if (
+    !exportNames ||
+    exportNames.includes('Component') ||
+    exportNames.includes('default')
+  ) {
+    properties.Component = `__SYNC_DEFAULT_${syncImportName}.Component__`
+  }
+
+  for (const name of names) {
+    if (
+      name === 'Component' ||
+      name === SEARCH_SCHEMA_EXPORT ||
+      NON_ROUTE_EXPORTS.has(name)
+    ) {
+      continue
+    }
+    properties[name] = `__SYNC_${syncImportName}.${name}__`
+  }
+
+  return properties
+}
+
+export const resolveMatchedKey = (
   fsPath: string,
   isSync: boolean | undefined,
   fileToImportMap: Record<string, string>,
+  extensions: string[] = DEFAULT_EXTENSIONS,
 ): string | undefined => {
-  if (isSync && fileToImportMap[`${fsPath}.sync.tsx`]) {
-    return `${fsPath}.sync.tsx`
-  }
-  if (fileToImportMap[`${fsPath}.tsx`]) {
-    return `${fsPath}.tsx`
-  }
-  if (isSync && fileToImportMap[`${fsPath}/layout.sync.tsx`]) {
-    return `${fsPath}/layout.sync.tsx`
-  }
-  if (fileToImportMap[`${fsPath}/layout.tsx`]) {
-    return `${fsPath}/layout.tsx`
-  }
-  if (isSync && fileToImportMap[`${fsPath}/index.sync.tsx`]) {
-    return `${fsPath}/index.sync.tsx`
+  // the sync variant wins for sync routes, then extensions are tried in configured order
+  const findFile = (basePath: string) => {
+    const markers = isSync ? [SYNC_MARKER, ''] : ['']
+    for (const marker of markers) {
+      for (const extension of extensions) {
+        const key = `${basePath}${marker}${extension}`
+        if (fileToImportMap[key]) return key
+      }
+    }
+    return undefined
   }
-  if (fileToImportMap[`${fsPath}/index.tsx`]) {
-    return `${fsPath}/index.tsx`
+
+  const directMatch =
+    findFile(fsPath) ??
+    findFile(`${fsPath}/layout`) ??
+    findFile(`${fsPath}/index`)
+  if (directMatch) {
+    return directMatch
   }
 
   if (fsPath.endsWith('/')) {
     const correctedPath = fsPath.slice(0, -1)
-    if (isSync && fileToImportMap[`${correctedPath}/index.sync.tsx`]) {
-      return `${correctedPath}/index.sync.tsx`
-    }
-    if (fileToImportMap[`${correctedPath}/index.tsx`]) {
-      return `${correctedPath}/index.tsx`
-    }
-    if (isSync && fileToImportMap[`${correctedPath}.sync.tsx`]) {
-      return `${correctedPath}.sync.tsx`
-    }
-    if (fileToImportMap[`${correctedPath}.tsx`]) {
-      return `${correctedPath}.tsx`
-    }
+    return findFile(`${correctedPath}/index`) ?? findFile(correctedPath)
+  } else if (fsPath.endsWith('/*')) {
+    return findFile(fsPath.slice(0, -2))
   } else if (fsPath.includes('/:')) {
-    const correctedPath = fsPath.replace(/\/:[^/]+(?:\/.*)?$/, '')
-    if (isSync && fileToImportMap[`${correctedPath}.sync.tsx`]) {
-      return `${correctedPath}.sync.tsx`
-    }
-    if (fileToImportMap[`${correctedPath}.tsx`]) {
-      return `${correctedPath}.tsx`
-    }
+    return findFile(fsPath.replace(/\/:[^/]+(?:\/.*)?$/, ''))
   } else {
     const pathParts = fsPath.split('/')
     if (pathParts.length >= 2) {
       const lastPart = pathParts.at(-1)
       const secondLastPart = pathParts.at(-2)
       if (lastPart === secondLastPart) {
-        const correctedPath = pathParts.slice(0, -1).join('/')
-        if (isSync && fileToImportMap[`${correctedPath}.sync.tsx`]) {
-          return `${correctedPath}.sync.tsx`
-        }
-        if (fileToImportMap[`${correctedPath}.tsx`]) {
-          return `${correctedPath}.tsx`
-        }
+        return findFile(pathParts.slice(0, -1).join('/'))
       }
     }
   }
@@ -93,12 +132,275 @@ const resolveMatchedKey = (
   return undefined
 }
 
-export function generateRouteFileContent(
+/**
+ * Import names of the page modules of a route file, each module imported once:
+ * `SyncComponentN` for eager imports and `lazyN` for lazy ones
+ */
+export const createPageImports = ({
+  debug,
+  logger,
+}: Pick<RouteFileOptions, 'debug' | 'logger'>) => {
+  const syncImports = new Map<string, string>()
+  const lazyImports = new Map<string, string>()
+
+  const registerImport = (matchedKey: string, isSync: boolean | undefined) => {
+    const imports = isSync ? syncImports : lazyImports
+    if (!imports.has(matchedKey)) {
+      imports.set(
+        matchedKey,
+        isSync ? `SyncComponent${imports.size}` : `lazy${imports.size}`,
+      )
+    }
+    const importName = imports.get(matchedKey)!
+    if (debug) {
+      logger.info(
+        `[route-builder-v2] Mapped ${isSync ? 'sync' : 'lazy'} component: ${matchedKey} -> ${importName}`,
+      )
+    }
+    return importName
+  }
+
+  return { syncImports, lazyImports, registerImport }
+}
+
+const normalizeFullPath = (fullPath: string) => {
+  const trimmed = fullPath.replace(/\/+$/, '')
+  return trimmed || '/'
+}
+
+const extractParams = (path: string) => {
+  const params = [...path.matchAll(/:([\w-]+)(\?)?/g)].map((match) => ({
+    name: match[1]!,
+    optional: match[2] === '?',
+  }))
+  if (path.endsWith('*')) {
+    params.push({ name: '*', optional: false })
+  }
+  return params
+}
+
+function collectRoutePaths(
+  routes: ExtendedRouteObject[],
+  paths: Set<string>,
+): Set<string> {
+  routes.forEach((route) => {
+    if (route.children) {
+      collectRoutePaths(route.children, paths)
+      return
+    }
+
+    const metadata = route[ROUTE_BUILDER_HANDLE]
+    if (route.lazy && metadata) {
+      paths.add(normalizeFullPath(metadata.fullPath))
+    }
+  })
+  return paths
+}
+
+function generateRouteTypes(routes: ExtendedRouteObject[]): string {
+  const paths = [...collectRoutePaths(routes, new Set())].sort()
+
+  const pathUnion =
+    paths.length > 0
+      ? paths.map((path) => `\n  | ${JSON.stringify(path)}`).join('')
+      : ' never'
+
+  const paramsEntries = paths.map((path) => {
+    const params = extractParams(path)
+    const paramsType =
+      params.length > 0
+        ? `{ ${params
+            .map(
+              ({ name, optional }) =>
+                `${JSON.stringify(name)}${optional ? '?' : ''}: string`,
+            )
+            .join('; ')} }`
+        : '{}'
+    return `  ${JSON.stringify(path)}: ${paramsType}\n`
+  })
+
+  return `export type RoutePath =${pathUnion}
+
+export interface RouteParams {
+${paramsEntries.join('')}}`
+}
+
+// registers the page tree with React Router, which types its own `href()` from it
+const REGISTER_AUGMENTATION = `module "react-router" {
+  interface Register {
+    pages: { [Path in RoutePath]: { params: RouteParams[Path] } }
+  }
+}`
+
+// route id -> key of its page file, for every route backed by a file
+function collectRouteModules(
   routes: ExtendedRouteObject[],
   fileToImportMap: Record<string, string>,
-  options: RouteFileOptions,
+  extensions: string[],
+  modules: Map<string, string>,
+): Map<string, string> {
+  routes.forEach((route) => {
+    const metadata = route[ROUTE_BUILDER_HANDLE]
+    if (route.id !== undefined && route.lazy && metadata?.fs) {
+      const matchedKey = resolveMatchedKey(
+        metadata.fs,
+        metadata.isSync,
+        fileToImportMap,
+        extensions,
+      )
+      if (matchedKey) {
+        modules.set(route.id, matchedKey)
+      }
+    }
+
+    if (route.children) {
+      collectRouteModules(route.children, fileToImportMap, extensions, modules)
+    }
+  })
+  return modules
+}
+
+// route id -> key of its page file, for every page exporting a search schema
+function collectSearchRoutes(
+  routes: ExtendedRouteObject[],
+  fileToImportMap: Record<string, string>,
+  options: Pick<RouteFileOptions, 'extensions' | 'getModuleExports'>,
+): Map<string, string> {
+  const modules = collectRouteModules(
+    routes,
+    fileToImportMap,
+    options.extensions ?? DEFAULT_EXTENSIONS,
+    new Map(),
+  )
+  return new Map(
+    [...modules].filter(([, fileKey]) =>
+      options.getModuleExports?.(fileKey)?.includes(SEARCH_SCHEMA_EXPORT),
+    ),
+  )
+}
+
+// type-only imports, so the page modules stay out of the route file's bundle
+function generateLoaderDataTypes(
+  routes: ExtendedRouteObject[],
+  fileToImportMap: Record<string, string>,
+  extensions: string[],
 ): string {
-  const { debug, logger } = options
+  const modules = collectRouteModules(
+    routes,
+    fileToImportMap,
+    extensions,
+    new Map(),
+  )
+
+  const entries = [...modules].map(
+    ([id, fileKey]) =>
+      `  ${JSON.stringify(id)}: LoaderData<typeof import(${JSON.stringify(fileToImportMap[fileKey])})>\n`,
+  )
+
+  return `type LoaderData<Module> = Module extends {
+  loader: (...args: any[]) => infer Data
+}
+  ? Awaited<Data>
+  : undefined
+
+export interface RouteLoaderDataMap {
+${entries.join('')}}`
+}
+
+// Standard Schema (Zod, Valibot, ...) first, then `.parse()` objects and plain validators
+function generateSearchTypes(
+  searchRoutes: Map<string, string>,
+  fileToImportMap: Record<string, string>,
+): string {
+  const entries = [...searchRoutes].map(
+    ([id, fileKey]) =>
+      `  ${JSON.stringify(id)}: SearchOf<typeof import(${JSON.stringify(fileToImportMap[fileKey])}).${SEARCH_SCHEMA_EXPORT}>\n`,
+  )
+
+  return `type SearchOf<Schema> = Schema extends {
+  "~standard": { types?: { output: infer Search } }
+}
+  ? Search
+  : Schema extends { parse: (input: any) => infer Search }
+    ? Search
+    : Schema extends (input: any) => infer Search
+      ? Search
+      : never
+
+export interface RouteSearchMap {
+${entries.join('')}}`
+}
+
+const USE_TYPED_SEARCH_SIGNATURE = `useTypedSearch<Id extends keyof RouteSearchMap>(
+  id: Id,
+): RouteSearchMap[Id]`
+
+const USE_TYPED_SEARCH_BODY = `{
+  const [searchParams] = useSearchParams()
+  const schema = searchSchemas[id]
+  if (!schema) {
+    throw new Error(
+      \`No searchSchema registered for route "\${id}", call useTypedSearch from that route or its children\`,
+    )
+  }
+  return useMemo(() => parseSearch(schema, searchParams), [schema, searchParams])
+}`
+
+const USE_ROUTE_DATA_SIGNATURE = `useRouteData<Id extends keyof RouteLoaderDataMap>(
+  id: Id,
+): RouteLoaderDataMap[Id] | undefined`
+
+const USE_ROUTE_DATA_BODY = `{
+  return useRouteLoaderData(id)
+}`
+
+// `useParams()` of React Router is not typed by `Register`, so params get their own hook
+const USE_ROUTE_PARAMS_SIGNATURE = `useRouteParams<P extends RoutePath>(
+  path: P,
+): RouteParams[P]`
+
+const USE_ROUTE_PARAMS_BODY = `{
+  return useParams()
+}`
+
+const HREF_SIGNATURE = `href<P extends RoutePath>(
+  path: P,
+  ...[params]: {} extends RouteParams[P] ? [RouteParams[P]?] : [RouteParams[P]]
+): string`
+
+const HREF_BODY = `{
+  const result = path
+    .replaceAll(/\\/:([\\w-]+)\\??/g, (_, key) =>
+      params?.[key] == null ? "" : "/" + encodeURIComponent(params[key]),
+    )
+    .replace(/\\*$/, () =>
+      params["*"].split("/").map(encodeURIComponent).join("/"),
+    )
+  return result || "/"
+}`
+
+export const indent = (code: string, prefix: string) =>
+  code.replaceAll(/^(?=.)/gm, prefix)
+
+function buildRouteModule(
+  routes: ExtendedRouteObject[],
+  fileToImportMap: Record<string, string>,
+  options: RouteFileOptions,
+) {
+  const {
+    debug,
+    logger,
+    getModuleExports,
+    extensions = DEFAULT_EXTENSIONS,
+    getFrontmatter,
+  } = options
+
+  // page file key -> route id, for the pages validating their search params
+  const searchRoutes = collectSearchRoutes(routes, fileToImportMap, options)
+  const searchRouteIds = new Map(
+    [...searchRoutes].map(([id, fileKey]) => [fileKey, id]),
+  )
+  const syncSearchSchemas: string[] = []
 
   const usedLazyFunctions = new Set<string>()
   const usedSyncImports = new Set<string>()
@@ -107,6 +409,32 @@ export function generateRouteFileContent(
   let lazyCounter = 0
   let syncCounter = 0
 
+  function registerImport(
+    fsPath: string,
+    matchedKey: string,
+    isSync: boolean | undefined,
+  ) {
+    if (isSync) {
+      const syncImportName = `SyncComponent${syncCounter++}`
+      usedSyncImports.add(matchedKey)
+      syncImportMap.set(matchedKey, syncImportName)
+      if (debug) {
+        logger.info(
+          `[route-builder-v2] Mapped sync import: ${fsPath} -> ${matchedKey} -> ${syncImportName}`,
+        )
+      }
+    } else {
+      const lazyFuncName = `lazy${lazyCounter++}`
+      usedLazyFunctions.add(matchedKey)
+      lazyFunctionMap.set(matchedKey, lazyFuncName)
+      if (debug) {
+        logger.info(
+          `[route-builder-v2] Mapped lazy function: ${fsPath} -> ${matchedKey} -> ${lazyFuncName}`,
+        )
+      }
+    }
+  }
+
   function collectUsedFunctions(routes: ExtendedRouteObject[]) {
     routes.forEach((route) => {
       const metadata = route[ROUTE_BUILDER_HANDLE]
@@ -116,28 +444,11 @@ export function generateRouteFileContent(
           metadata.fs,
           metadata.isSync,
           fileToImportMap,
+          extensions,
         )
 
         if (matchedKey && fileToImportMap[matchedKey]) {
-          if (metadata.isSync) {
-            const syncImportName = `SyncComponent${syncCounter++}`
-            usedSyncImports.add(matchedKey)
-            syncImportMap.set(matchedKey, syncImportName)
-            if (debug) {
-              logger.info(
-                `[route-builder-v2] Mapped sync import: ${metadata.fs} -> ${matchedKey} -> ${syncImportName}`,
-              )
-            }
-          } else {
-            const lazyFuncName = `lazy${lazyCounter++}`
-            usedLazyFunctions.add(matchedKey)
-            lazyFunctionMap.set(matchedKey, lazyFuncName)
-            if (debug) {
-              logger.info(
-                `[route-builder-v2] Mapped lazy function: ${metadata.fs} -> ${matchedKey} -> ${lazyFuncName}`,
-              )
-            }
-          }
+          registerImport(metadata.fs, matchedKey, metadata.isSync)
         } else {
           logger.warn(
             `[route-builder-v2] Could not find file for fs path: ${metadata.fs}`,
@@ -153,6 +464,24 @@ export function generateRouteFileContent(
         }
       }
 
+      // a sync layout needs its ErrorBoundary up front, so it is imported eagerly too
+      if (metadata?.errorBoundary && fileToImportMap[metadata.errorBoundary]) {
+        registerImport(
+          metadata.fs,
+          metadata.errorBoundary,
+          metadata.isSync ||
+            parseRouteFileKey(metadata.errorBoundary, extensions)?.isSync,
+        )
+      }
+
+      // HydrateFallback has to be available before any lazy chunk resolves
+      if (
+        metadata?.hydrateFallback &&
+        fileToImportMap[metadata.hydrateFallback]
+      ) {
+        registerImport(metadata.fs, metadata.hydrateFallback, true)
+      }
+
       if (route.children) {
         collectUsedFunctions(route.children)
       }
@@ -171,11 +500,24 @@ export function generateRouteFileContent(
     }
   })
 
+  let usesMdxRoute = false
+  let usesSearchRoute = false
   usedLazyFunctions.forEach((key) => {
     const importPath = fileToImportMap[key]
     const lazyFuncName = lazyFunctionMap.get(key)
     if (importPath && lazyFuncName) {
-      imports.push(`const ${lazyFuncName} = () => import("${importPath}")`)
+      let load = `import("${importPath}")`
+      // the compiled MDX document is the default export
+      if (isMdxFile(key)) {
+        usesMdxRoute = true
+        load += '.then(mdxRoute)'
+      }
+      const searchRouteId = searchRouteIds.get(key)
+      if (searchRouteId !== undefined) {
+        usesSearchRoute = true
+        load += `.then(searchRoute(${JSON.stringify(searchRouteId)}))`
+      }
+      imports.push(`const ${lazyFuncName} = () => ${load}`)
     }
   })
 
@@ -186,29 +528,55 @@ export function generateRouteFileContent(
       const newRoute = { ...route } as SerializableRouteObject &
         RouteWithInternalHandle
       const metadata = route[ROUTE_BUILDER_HANDLE]
+      let lazyFuncName: string | undefined
 
       if (route.lazy && metadata?.fs) {
         const matchedKey = resolveMatchedKey(
           metadata.fs,
           metadata.isSync,
           fileToImportMap,
+          extensions,
         )
 
         if (matchedKey) {
           if (metadata.isSync && syncImportMap.has(matchedKey)) {
-            const syncComponentName = syncImportMap.get(matchedKey)
-            newRoute.Component = `__SYNC_${syncComponentName}.Component__`
-            newRoute.loader = `__SYNC_${syncComponentName}.loader__`
-            newRoute.handle = `__SYNC_${syncComponentName}.handle__`
+            const syncComponentName = syncImportMap.get(matchedKey)!
+            Object.assign(
+              newRoute,
+              syncRouteProperties(
+                syncComponentName,
+                getModuleExports?.(matchedKey),
+              ),
+            )
+            const searchRouteId = searchRouteIds.get(matchedKey)
+            if (searchRouteId !== undefined) {
+              const hasLoader =
+                getModuleExports?.(matchedKey)?.includes('loader')
+              newRoute.loader = hasLoader
+                ? `__SEARCH_LOADER_${syncComponentName}.loader__`
+                : `__SEARCH_LOADER_${syncComponentName}__`
+              syncSearchSchemas.push(
+                `${JSON.stringify(searchRouteId)}: ${syncComponentName}.${SEARCH_SCHEMA_EXPORT}`,
+              )
+            }
             delete newRoute.lazy
           } else if (lazyFunctionMap.has(matchedKey)) {
-            newRoute.lazy = `__LAZY_${lazyFunctionMap.get(matchedKey)}__`
+            lazyFuncName = lazyFunctionMap.get(matchedKey)
+            newRoute.lazy = `__LAZY_${lazyFuncName}__`
           } else {
             delete newRoute.lazy
             logger.warn(
               `[route-builder-v2] No function for route: ${metadata.fs}`,
             )
           }
+
+          // frontmatter is inlined so it is readable without loading the chunk
+          const frontmatter = isMdxFile(matchedKey)
+            ? getFrontmatter?.(matchedKey)
+            : undefined
+          if (frontmatter) {
+            newRoute.handle = frontmatter
+          }
         } else {
           delete newRoute.lazy
           logger.warn(
@@ -217,6 +585,29 @@ export function generateRouteFileContent(
         }
       }
 
+      if (metadata?.errorBoundary) {
+        const errorKey = metadata.errorBoundary
+        if (syncImportMap.has(errorKey)) {
+          const syncComponentName = syncImportMap.get(errorKey)
+          newRoute.ErrorBoundary = `__SYNC_DEFAULT_${syncComponentName}.ErrorBoundary__`
+        } else if (lazyFunctionMap.has(errorKey)) {
+          // merge the lazy error module into the route's own lazy import
+          const errorLazyName = lazyFunctionMap.get(errorKey)
+          newRoute.lazy = lazyFuncName
+            ? `__LAZY_ERROR_${errorLazyName}_${lazyFuncName}__`
+            : `__LAZY_ERROR_${errorLazyName}__`
+          usesLazyErrorBoundary = true
+        }
+      }
+
+      if (
+        metadata?.hydrateFallback &&
+        syncImportMap.has(metadata.hydrateFallback)
+      ) {
+        const syncComponentName = syncImportMap.get(metadata.hydrateFallback)
+        newRoute.HydrateFallback = `__SYNC_DEFAULT_${syncComponentName}.HydrateFallback__`
+      }
+
       if (metadata) {
         delete newRoute[ROUTE_BUILDER_HANDLE]
       }
@@ -229,31 +620,238 @@ export function generateRouteFileContent(
     })
   }
 
+  let usesLazyErrorBoundary = false
   const processedRoutes = processRoutes(routes)
 
+  const helpers: string[] = []
+
+  if (usesMdxRoute) {
+    helpers.push(
+      `const mdxRoute = ({ default: Component, ...route }) => ({ ...route, Component })`,
+    )
+  }
+
+  // invalid search params become a 400 response for the nearest ErrorBoundary,
+  // a schema that cannot be used is a bug and throws as it is
+  if (searchRoutes.size > 0) {
+    helpers.push(`const parseSearch = (schema, searchParams) => {
+  // repeated keys (\`?tag=a&tag=b\`) are kept as arrays
+  const input = {}
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key)
+    input[key] = values.length > 1 ? values : values[0]
+  }
+
+  if (schema?.["~standard"]) {
+    const result = schema["~standard"].validate(input)
+    if (result instanceof Promise) {
+      throw new TypeError("searchSchema must validate synchronously")
+    }
+    if (result.issues) {
+      throw new Response("Invalid search params", { status: 400 })
+    }
+    return result.value
+  }
+
+  let validate
+  if (typeof schema === "function") {
+    validate = schema
+  } else if (typeof schema?.parse === "function") {
+    validate = (input) => schema.parse(input)
+  } else {
+    throw new TypeError(
+      "searchSchema must be a Standard Schema, have a parse() method or be a function",
+    )
+  }
+  // parse() and plain validators report invalid input by throwing
+  try {
+    return validate(input)
+  } catch {
+    throw new Response("Invalid search params", { status: 400 })
+  }
+}`)
+    helpers.push(
+      syncSearchSchemas.length > 0
+        ? `const searchSchemas = {\n${indent(syncSearchSchemas.join(',\n'), '  ')},\n}`
+        : 'const searchSchemas = {}',
+    )
+    helpers.push(`const withSearchValidation = (schema, loader) => (args) => {
+  const search = parseSearch(schema, new URL(args.request.url).searchParams)
+  return loader ? loader({ ...args, search }) : null
+}`)
+  }
+
+  // lazy pages register their schema once loaded, before their route renders
+  if (usesSearchRoute) {
+    helpers.push(`const searchRoute = (id) => ({ searchSchema, ...route }) => {
+  searchSchemas[id] = searchSchema
+  return { ...route, loader: withSearchValidation(searchSchema, route.loader) }
+}`)
+  }
+
+  if (usesLazyErrorBoundary) {
+    helpers.push(`const withErrorBoundary = (loadError, load) => async () => {
+  const [route, error] = await Promise.all([load?.(), loadError()])
+  return { ...route, ErrorBoundary: error.ErrorBoundary ?? error.default }
+}`)
+  }
+
   const routesString = JSON.stringify(processedRoutes, null, 2)
+    .replaceAll(
+      /"__LAZY_ERROR_(lazy\d+)_(lazy\d+)__"/g,
+      'withErrorBoundary($1, $2)',
+    )
+    .replaceAll(/"__LAZY_ERROR_(lazy\d+)__"/g, 'withErrorBoundary($1)')
     .replaceAll(/"__LAZY_(\w+)__"/g, '$1')
     .replaceAll(
-      /"__SYNC_([^.]+)\.Component__"/g,
-      '$1.Component ?? $1.default',
+      /"__SEARCH_LOADER_(\w+)(\.loader)?__"/g,
+      (_, name: string, loader?: string) =>
+        `withSearchValidation(${name}.${SEARCH_SCHEMA_EXPORT}${loader ? `, ${name}${loader}` : ''})`,
+    )
+    .replaceAll(
+      /"__SYNC_DEFAULT_([^.]+)\.([\w$]+)__"/g,
+      '$1.$2 ?? $1.default',
     )
-    .replaceAll(/"__SYNC_([^.]+)\.loader__"/g, '$1.loader')
-    .replaceAll(/"__SYNC_([^.]+)\.handle__"/g, '$1.handle')
+    .replaceAll(/"__SYNC_([^.]+)\.([\w$]+)__"/g, '$1.$2')
     .replaceAll(/,?\s*"loader":\s*undefined/g, '')
 
+  return {
+    imports: `${imports.join('\n')}${helpers.map((helper) => `\n\n${helper}`).join('')}`,
+    routesString,
+    searchRoutes,
+  }
+}
+
+export function generateRouteFileContent(
+  routes: ExtendedRouteObject[],
+  fileToImportMap: Record<string, string>,
+  options: RouteFileOptions,
+): string {
+  const { imports, routesString, searchRoutes } = buildRouteModule(
+    routes,
+    fileToImportMap,
+    options,
+  )
+  const usesSearch = searchRoutes.size > 0
+
   return `// This file is auto-generated by vite-plugin-route-builder
 // Do not edit manually
 /* eslint-disable */
 // @ts-nocheck
 
-import type { RouteObject } from "react-router"
+${usesSearch ? 'import { useMemo } from "react"\n' : ''}import { type RouteObject, useParams, useRouteLoaderData${usesSearch ? ', useSearchParams' : ''} } from "react-router"
 
 // Imports for page components
-${imports.join('\n')}
+${imports}
 
 // Generated route configuration
 export const routes: RouteObject[] = ${routesString}
 
+// Typed route paths
+${generateRouteTypes(routes)}
+
+export function ${HREF_SIGNATURE} ${HREF_BODY}
+
+export function ${USE_ROUTE_PARAMS_SIGNATURE} ${USE_ROUTE_PARAMS_BODY}
+
+declare ${REGISTER_AUGMENTATION}
+
+// Typed loader data by route id
+${generateLoaderDataTypes(routes, fileToImportMap, options.extensions ?? DEFAULT_EXTENSIONS)}
+
+export function ${USE_ROUTE_DATA_SIGNATURE} ${USE_ROUTE_DATA_BODY}
+${
+  usesSearch
+    ? `
+// Typed search params by route id
+${generateSearchTypes(searchRoutes, fileToImportMap)}
+
+export function ${USE_TYPED_SEARCH_SIGNATURE} ${USE_TYPED_SEARCH_BODY}
+`
+    : ''
+}
 export default routes
 `
 }
+
+/**
+ * Plain JavaScript variant of the route file, served as a virtual module.
+ * Import paths in `fileToImportMap` must be absolute, as there is no file to be relative to.
+ */
+export function generateVirtualRouteModule(
+  routes: ExtendedRouteObject[],
+  fileToImportMap: Record<string, string>,
+  options: RouteFileOptions,
+): string {
+  const { imports, routesString, searchRoutes } = buildRouteModule(
+    routes,
+    fileToImportMap,
+    options,
+  )
+  const usesSearch = searchRoutes.size > 0
+
+  return `// This module is generated by vite-plugin-route-builder
+
+${usesSearch ? 'import { useMemo } from "react"\n' : ''}import { useParams, useRouteLoaderData${usesSearch ? ', useSearchParams' : ''} } from "react-router"
+
+// Imports for page components
+${imports}
+
+// Generated route configuration
+export const routes = ${routesString}
+
+export function href(path, params) ${HREF_BODY}
+
+export function useRouteParams(path) ${USE_ROUTE_PARAMS_BODY}
+
+export function useRouteData(id) ${USE_ROUTE_DATA_BODY}
+${usesSearch ? `\nexport function useTypedSearch(id) ${USE_TYPED_SEARCH_BODY}\n` : ''}
+export default routes
+`
+}
+
+/**
+ * Type declarations for the virtual routes module.
+ * Import paths in `fileToImportMap` are relative to the declaration file.
+ */
+export function generateVirtualRouteDeclaration(
+  routes: ExtendedRouteObject[],
+  moduleId: string,
+  fileToImportMap: Record<string, string>,
+  options: Pick<RouteFileOptions, 'extensions' | 'getModuleExports'> = {},
+): string {
+  const searchRoutes = collectSearchRoutes(routes, fileToImportMap, options)
+
+  return `// This file is auto-generated by vite-plugin-route-builder
+// Do not edit manually
+/* eslint-disable */
+
+declare module ${JSON.stringify(moduleId)} {
+  import type { RouteObject } from "react-router"
+
+  export const routes: RouteObject[]
+
+${indent(generateRouteTypes(routes), '  ')}
+
+${indent(`export function ${HREF_SIGNATURE}`, '  ')}
+
+${indent(`export function ${USE_ROUTE_PARAMS_SIGNATURE}`, '  ')}
+
+${indent(REGISTER_AUGMENTATION, '  ')}
+
+${indent(generateLoaderDataTypes(routes, fileToImportMap, options.extensions ?? DEFAULT_EXTENSIONS), '  ')}
+
+${indent(`export function ${USE_ROUTE_DATA_SIGNATURE}`, '  ')}
+${
+  searchRoutes.size > 0
+    ? `
+${indent(generateSearchTypes(searchRoutes, fileToImportMap), '  ')}
+
+${indent(`export function ${USE_TYPED_SEARCH_SIGNATURE}`, '  ')}
+`
+    : ''
+}
+  export default routes
+}
+`
+}
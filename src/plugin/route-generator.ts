@@ -1,95 +1,379 @@
-import { writeFileSync } from 'node:fs'
+import { existsSync, writeFileSync } from 'node:fs'
 
-import glob from 'fast-glob'
 import { dirname, relative, resolve } from 'pathe'
 import type { Logger } from 'vite'
 
-import { buildGlobRoutes } from '../utils/route-builder'
-import { generateRouteFileContent } from './route-file'
+import {
+  buildGlobRoutes,
+  findRouteConflicts,
+  flatRouteKeysToNested,
+  parseRouteFileKey,
+  type RouteSubtreeCache,
+  SYNC_MARKER,
+} from '../utils/route-builder'
+import type { RouteEmitter, RouteEmitterContext } from './emitter'
+import { isMdxFile, readMdxModule } from './mdx'
+import { readModuleExports, readSourceFile } from './module-exports'
+import type { PageFileIndex } from './page-file-index'
+import {
+  findPageExportIssues,
+  findUnresolvedRoutes,
+} from './route-diagnostics'
+
+export interface RouteSource {
+  /** Page files glob pattern, relative to the project root */
+  pattern: string
+  /** URL prefix the routes of this source are mounted at, e.g. `/admin`. Default: `/` */
+  prefix?: string
+  /** Layout file wrapping every route of this source, relative to the project root */
+  layout?: string
+}
 
 interface RouteGenerationOptions {
   root: string
   pagePattern: string
+  /** Directory holding the page files, whose contents form the route tree */
+  routesDir: string
+  /** Several page roots merged into one route tree, replacing `pagePattern` */
+  sources?: RouteSource[]
+  /** Page file extensions, in resolution order */
+  extensions: string[]
+  /** `flat` reads Remix-style dot-separated file names (`blog.$slug.tsx`) instead of directories */
+  routeConvention: 'directory' | 'flat'
   outputPath: string
   transformPath?: (path: string) => string
   debug: boolean
   segmentGroupOrder: string[]
   logger: Logger
+  /** Building for production, where route conflicts fail the build instead of only being reported */
+  isBuild: boolean
+  /** Fail on routes that resolve to no page file, unused page files, empty branches and missing source layouts */
+  strict: boolean
+  /** Page files and what was read from them, kept across regenerations */
+  pageFiles: PageFileIndex
+  /** Route subtrees of earlier generations, rebuilt only once the page files below them change */
+  routeSubtrees?: RouteSubtreeCache
+  /** Turns the route tree into the route module of a router framework */
+  emitter: RouteEmitter
+  /** Generate a virtual module instead of writing `outputPath`, with type declarations at `dtsPath` */
+  virtual?: { moduleId: string; dtsPath: string }
+}
+
+// shared by every generation, so reused route subtrees hold the same getter as rebuilt ones
+const noopLazy = () => Promise.resolve({ default: () => null })
+
+// skip rewriting unchanged files so editors and watchers are not disturbed
+const writeFileIfChanged = (filePath: string, content: string) => {
+  if (readSourceFile(filePath) === content) {
+    return false
+  }
+  writeFileSync(filePath, content, 'utf-8')
+  return true
+}
+
+const trimRelativePrefix = (path: string) =>
+  path.replaceAll('\\', '/').replace(/^(\.?\/)+/, '')
+
+// relative import specifier of a file, from the directory of the importing file
+const toRelativeImportPath = (fromDir: string, absolutePath: string) => {
+  const importPath = relative(fromDir, absolutePath).replaceAll('\\', '/')
+  return importPath.startsWith('.') ? importPath : `./${importPath}`
+}
+
+// script extensions are resolved by the bundler, others (e.g. `.mdx`) must stay explicit
+const stripScriptExtension = (importPath: string) =>
+  importPath.replace(/\.[jt]sx?$/, '')
+
+/**
+ * Static directory of a glob pattern, e.g. `packages/admin/pages` for `./packages/admin/pages/**\/*.tsx`
+ */
+export function getPatternBaseDir(pattern: string): string {
+  const segments = trimRelativePrefix(pattern).split('/')
+  const globIndex = segments.findIndex((segment) => /[*?{}!]/.test(segment))
+  return segments.slice(0, globIndex === -1 ? -1 : globIndex).join('/')
 }
 
-export function generateRoutes(options: RouteGenerationOptions) {
+// route key without the sync marker and extension, so `a.tsx`, `a.sync.tsx` and `a.mdx` count as the same route
+const toRouteIdentity = (routeKey: string, extensions: string[]) =>
+  parseRouteFileKey(routeKey, extensions)?.base ?? routeKey
+
+/**
+ * Generate the route module, returning its code
+ */
+export function generateRoutes(options: RouteGenerationOptions): string {
   const {
     root,
     pagePattern,
+    routesDir,
+    sources,
+    extensions,
+    routeConvention,
     outputPath,
     transformPath,
     debug,
     segmentGroupOrder,
     logger,
+    isBuild,
+    strict,
+    pageFiles,
+    routeSubtrees,
+    emitter,
+    virtual,
   } = options
 
   try {
-    const pageFiles = glob.sync(pagePattern, {
-      cwd: root,
-      absolute: true,
-    })
-
-    logger.info(`[route-builder-v2] Found ${pageFiles.length} page files`)
-
     const globObject: Record<string, () => Promise<unknown>> = {}
     const fileToImportMap: Record<string, string> = {}
+    const fileToAbsolutePathMap: Record<string, string> = {}
+    // page files as referenced by a framework route config, keeping their extension
+    const fileToRoutePathMap: Record<string, string> = {}
+    // page files as imported by the virtual module's type declarations
+    const fileToDeclarationImportMap: Record<string, string> = {}
+    // route identity -> origin and file, to detect conflicts between sources
+    const routeOwners = new Map<string, { origin: string; file: string }>()
+    // problems only reported in strict mode
+    const strictIssues: string[] = []
 
-    const noopLazy = () => Promise.resolve({ default: () => null })
-
-    pageFiles.forEach((absolutePath) => {
-      const relativePath = relative(root, absolutePath)
-
-      let routeKey: string
-      if (relativePath.includes('/pages/')) {
-        routeKey = `./pages/${relativePath.split('/pages/')[1]}`
-      } else if (relativePath.includes('\\pages\\')) {
-        routeKey = `./pages/${relativePath
-          .split('\\pages\\')[1]
-          ?.replaceAll('\\', '/')}`
-      } else {
-        routeKey = `./${relativePath.replaceAll('\\', '/')}`
-      }
-
+    // `origin` is the source pattern (or layout) the file was found through
+    const addPageFile = (
+      absolutePath: string,
+      routeKey: string,
+      origin: string,
+    ) => {
       if (transformPath) {
         routeKey = transformPath(routeKey)
       }
 
-      const outputDir = dirname(resolve(root, outputPath))
-      let importPath = relative(outputDir, absolutePath)
-
-      importPath = importPath.replaceAll('\\', '/')
+      const identity = toRouteIdentity(routeKey, extensions)
+      const owner = routeOwners.get(identity)
+      if (owner && owner.origin !== origin) {
+        throw new Error(
+          `Route conflict between sources: ${owner.file} (${owner.origin}) and ${absolutePath} (${origin}) both map to ${identity}`,
+        )
+      }
+      routeOwners.set(identity, { origin, file: absolutePath })
 
-      if (!importPath.startsWith('.')) {
-        importPath = `./${importPath}`
+      let importPath: string
+      if (virtual) {
+        importPath = absolutePath.replaceAll('\\', '/')
+        // the declarations are committed, so they must not hold machine-specific paths
+        fileToDeclarationImportMap[routeKey] = stripScriptExtension(
+          toRelativeImportPath(
+            dirname(resolve(root, virtual.dtsPath)),
+            absolutePath,
+          ),
+        )
+      } else {
+        importPath = toRelativeImportPath(
+          dirname(resolve(root, outputPath)),
+          absolutePath,
+        )
       }
 
-      const finalImportPath = importPath.replace(/\.tsx$/, '')
+      const finalImportPath = stripScriptExtension(importPath)
 
       globObject[routeKey] = noopLazy
       fileToImportMap[routeKey] = finalImportPath
+      fileToAbsolutePathMap[routeKey] = absolutePath
+      fileToRoutePathMap[routeKey] = importPath
 
       if (debug) {
         logger.info(
           `[route-builder-v2] Mapped: ${routeKey} -> ${finalImportPath}`,
         )
       }
+    }
+
+    // flat route keys are translated into directory convention keys before they are added
+    const addPageFiles = (
+      files: { absolutePath: string; routeKey: string }[],
+      keyPrefix: string,
+      origin: string,
+    ) => {
+      const nestedKeys =
+        routeConvention === 'flat'
+          ? flatRouteKeysToNested(
+              files.map(({ routeKey }) => routeKey),
+              keyPrefix,
+              extensions,
+            )
+          : undefined
+
+      files.forEach(({ absolutePath, routeKey }) => {
+        const key = nestedKeys ? nestedKeys.get(routeKey) : routeKey
+        // colocated modules of flat route folders are not pages
+        if (key) {
+          addPageFile(absolutePath, key, origin)
+        }
+      })
+    }
+
+    if (!sources?.length) {
+      const patternFiles = pageFiles.list(pagePattern)
+
+      logger.info(`[route-builder-v2] Found ${patternFiles.length} page files`)
+
+      const files = patternFiles.map((absolutePath) => {
+        const relativePath = `/${trimRelativePrefix(relative(root, absolutePath))}`
+        const routesDirIndex = relativePath.indexOf(`/${routesDir}/`)
+
+        const routeKey =
+          routesDirIndex === -1
+            ? `.${relativePath}`
+            : `.${relativePath.slice(routesDirIndex)}`
+
+        return { absolutePath, routeKey }
+      })
+
+      addPageFiles(files, `./${routesDir}/`, pagePattern)
+    }
+
+    sources?.forEach(({ pattern, prefix = '/', layout }) => {
+      const patternFiles = pageFiles.list(pattern)
+
+      logger.info(
+        `[route-builder-v2] Found ${patternFiles.length} page files in ${pattern}`,
+      )
+
+      const baseDir = getPatternBaseDir(pattern)
+      const mountSegments = prefix.split('/').filter(Boolean)
+      const mountKey = [`./${routesDir}`, ...mountSegments].join('/')
+
+      const files = patternFiles.map((absolutePath) => {
+        const relativePath = trimRelativePrefix(relative(root, absolutePath))
+        const sourceRelativePath =
+          baseDir && relativePath.startsWith(`${baseDir}/`)
+            ? relativePath.slice(baseDir.length + 1)
+            : relativePath
+
+        return { absolutePath, routeKey: `${mountKey}/${sourceRelativePath}` }
+      })
+
+      addPageFiles(files, `${mountKey}/`, pattern)
+
+      if (layout) {
+        const parsedLayout = parseRouteFileKey(layout, extensions)
+        if (!parsedLayout) {
+          throw new Error(
+            `Source layout ${layout} does not use a page extension (${extensions.join(', ')})`,
+          )
+        }
+        if (strict && !existsSync(resolve(root, layout))) {
+          strictIssues.push(`Source layout ${layout} does not exist`)
+        }
+        const layoutKey = `${mountKey}/layout${parsedLayout.isSync ? SYNC_MARKER : ''}${parsedLayout.extension}`
+        addPageFile(resolve(root, layout), layoutKey, layout)
+      }
     })
 
-    const routes = buildGlobRoutes(globObject, { segmentGroupOrder })
-    const routeFileContent = generateRouteFileContent(routes, fileToImportMap, {
-      debug,
-      logger,
+    const conflicts = findRouteConflicts(Object.keys(globObject), {
+      routesDir,
+      extensions,
     })
+    conflicts.forEach(({ path, files }) => {
+      const fileList = files
+        .map((key) => `  - ${relative(root, fileToAbsolutePathMap[key]!)}`)
+        .join('\n')
+      logger.error(
+        `[route-builder-v2] Route conflict: ${files.length} files map to ${path}\n${fileList}`,
+      )
+    })
+    if (conflicts.length > 0 && isBuild) {
+      throw new Error(
+        `Found ${conflicts.length} route conflict(s): ${conflicts.map(({ path }) => path).join(', ')}`,
+      )
+    }
 
-    const outputFilePath = resolve(root, outputPath)
-    writeFileSync(outputFilePath, routeFileContent, 'utf-8')
+    const routes = buildGlobRoutes(globObject, {
+      segmentGroupOrder,
+      routesDir,
+      extensions,
+      subtreeCache: routeSubtrees,
+    })
+
+    // page files are only read again once they change
+    const readMdxPage = (absolutePath: string) =>
+      pageFiles.cached(absolutePath, 'mdx', () => readMdxModule(absolutePath))
 
-    logger.info(`[route-builder-v2] Generated routes: ${outputFilePath}`)
+    const getModuleExports = (fileKey: string) => {
+      const absolutePath = fileToAbsolutePathMap[fileKey]
+      if (!absolutePath) return undefined
+      return isMdxFile(fileKey)
+        ? readMdxPage(absolutePath)?.exports
+        : pageFiles.cached(absolutePath, 'exports', () =>
+            readModuleExports(absolutePath),
+          )
+    }
+
+    // mistakes in page modules are warnings, unless in strict mode
+    const exportIssues = findPageExportIssues(routes, fileToImportMap, {
+      extensions,
+      getModuleExports,
+      readSource: (fileKey) => {
+        const absolutePath = fileToAbsolutePathMap[fileKey]!
+        return pageFiles.cached(absolutePath, 'source', () =>
+          readSourceFile(absolutePath),
+        )
+      },
+    })
+    if (strict) {
+      strictIssues.push(
+        ...findUnresolvedRoutes(routes, fileToImportMap, extensions),
+        ...exportIssues,
+      )
+      if (strictIssues.length > 0) {
+        throw new Error(
+          `Strict mode found ${strictIssues.length} route problem(s):\n${strictIssues.map((issue) => `  - ${issue}`).join('\n')}`,
+        )
+      }
+    } else {
+      exportIssues.forEach((issue) => logger.warn(`[route-builder-v2] ${issue}`))
+    }
+
+    const emitterContext: RouteEmitterContext = {
+      routes,
+      fileToImportMap,
+      fileToRoutePathMap,
+      fileToDeclarationImportMap,
+      options: {
+        debug,
+        logger,
+        extensions,
+        getModuleExports,
+        getFrontmatter: (fileKey: string) => {
+          const absolutePath = fileToAbsolutePathMap[fileKey]
+          return absolutePath ? readMdxPage(absolutePath)?.frontmatter : undefined
+        },
+      },
+    }
+
+    if (virtual) {
+      if (!emitter.emitVirtual) {
+        throw new Error(
+          `The ${emitter.name} target cannot be served as a virtual module`,
+        )
+      }
+      const { code, declaration } = emitter.emitVirtual(
+        emitterContext,
+        virtual.moduleId,
+      )
+
+      const dtsFilePath = resolve(root, virtual.dtsPath)
+      if (writeFileIfChanged(dtsFilePath, declaration)) {
+        logger.info(`[route-builder-v2] Generated route types: ${dtsFilePath}`)
+      }
+
+      logger.info(`[route-builder-v2] Generated routes: ${virtual.moduleId}`)
+      return code
+    }
+
+    const routeFileContent = emitter.emit(emitterContext)
+
+    const outputFilePath = resolve(root, outputPath)
+    if (writeFileIfChanged(outputFilePath, routeFileContent)) {
+      logger.info(`[route-builder-v2] Generated routes: ${outputFilePath}`)
+    }
+    return routeFileContent
   } catch (error: any) {
     logger.error(`[route-builder-v2] Error generating routes:${error.message}`)
     console.error(error)
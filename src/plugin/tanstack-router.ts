@@ -0,0 +1,187 @@
+import {
+  DEFAULT_EXTENSIONS,
+  type ExtendedRouteObject,
+  parseRouteFileKey,
+  ROUTE_BUILDER_HANDLE,
+} from '../utils/route-builder'
+import {
+  createPageImports,
+  indent,
+  resolveMatchedKey,
+  type RouteFileOptions,
+} from './route-file'
+
+// React Router segments in TanStack Router syntax
+const toTanstackPath = (path: string) =>
+  path
+    .split('/')
+    .map((segment) => {
+      if (segment === '*') return '$'
+      if (segment.startsWith(':') && segment.endsWith('?')) {
+        return `{-$${segment.slice(1, -1)}}`
+      }
+      if (segment.startsWith(':')) return `$${segment.slice(1)}`
+      return segment
+    })
+    .join('/')
+
+// pathless layouts are identified by their directory, e.g. `(main)` -> `_main`
+const toLayoutId = (fs: string) => {
+  const segments = fs.split('/').filter((segment) => segment !== 'layout')
+  return `_${segments.at(-1)!.replaceAll(/[^\w-]/g, '')}`
+}
+
+const renderTree = (children: string[]) =>
+  `[\n${indent(children.join(',\n'), '  ')},\n]`
+
+/**
+ * TanStack Router variant of the route file, built from the same route tree.
+ * `.sync` pages are imported eagerly, all others through `lazyRouteComponent`.
+ */
+export function generateTanstackRouteFileContent(
+  routes: ExtendedRouteObject[],
+  fileToImportMap: Record<string, string>,
+  options: RouteFileOptions,
+): string {
+  const { logger, extensions = DEFAULT_EXTENSIONS } = options
+
+  const { syncImports, lazyImports, registerImport } =
+    createPageImports(options)
+  const declarations: string[] = []
+  let routeCounter = 0
+
+  // component expression of a page module's `exportName` (or default) export
+  const componentOf = (
+    fileKey: string,
+    isSync: boolean | undefined,
+    exportName: string,
+  ) => {
+    const importName = registerImport(fileKey, isSync)
+    return isSync
+      ? `${importName}.${exportName} ?? ${importName}.default`
+      : `lazyComponent(${importName}, ${JSON.stringify(exportName)})`
+  }
+
+  // declares the routes, returning the route tree expression of each
+  function processRoutes(
+    routes: ExtendedRouteObject[],
+    parentName: string,
+  ): string[] {
+    return routes.flatMap((route) => {
+      const metadata = route[ROUTE_BUILDER_HANDLE]
+      const properties = [`getParentRoute: () => ${parentName}`]
+
+      const matchedKey =
+        route.lazy && metadata?.fs
+          ? resolveMatchedKey(
+              metadata.fs,
+              metadata.isSync,
+              fileToImportMap,
+              extensions,
+            )
+          : undefined
+      if (route.lazy && metadata?.fs && !matchedKey) {
+        logger.warn(
+          `[route-builder-v2] No matching file for route: ${metadata.fs}`,
+        )
+      }
+
+      if (route.index) {
+        properties.push(`path: "/"`)
+      } else if (route.path || !route.children) {
+        properties.push(
+          `path: ${JSON.stringify(toTanstackPath(route.path ?? ''))}`,
+        )
+      } else if (
+        matchedKey ||
+        metadata?.errorBoundary ||
+        metadata?.hydrateFallback
+      ) {
+        // groups with error or loading files but no layout still need a route to hold them
+        properties.push(`id: ${JSON.stringify(toLayoutId(metadata!.fs))}`)
+      } else {
+        // groups without a layout add nothing to the route tree
+        return processRoutes(route.children, parentName)
+      }
+
+      if (matchedKey) {
+        properties.push(
+          `component: ${componentOf(matchedKey, metadata!.isSync, 'Component')}`,
+        )
+      }
+      if (metadata?.errorBoundary && fileToImportMap[metadata.errorBoundary]) {
+        const isSync =
+          metadata.isSync ||
+          parseRouteFileKey(metadata.errorBoundary, extensions)?.isSync
+        properties.push(
+          `errorComponent: ${componentOf(metadata.errorBoundary, isSync, 'ErrorBoundary')}`,
+        )
+      }
+      // the pending component has to be available before any lazy chunk resolves
+      if (
+        metadata?.hydrateFallback &&
+        fileToImportMap[metadata.hydrateFallback]
+      ) {
+        properties.push(
+          `pendingComponent: ${componentOf(metadata.hydrateFallback, true, 'HydrateFallback')}`,
+        )
+      }
+
+      const routeName = `route${routeCounter++}`
+      declarations.push(
+        `const ${routeName} = createRoute({\n${indent(properties.join(',\n'), '  ')},\n})`,
+      )
+
+      const children = route.children
+        ? processRoutes(route.children, routeName)
+        : []
+      return [
+        children.length
+          ? `${routeName}.addChildren(${renderTree(children)})`
+          : routeName,
+      ]
+    })
+  }
+
+  const tree = processRoutes(routes, 'rootRoute')
+
+  const imports = [
+    ...[...syncImports].map(
+      ([key, name]) => `import * as ${name} from "${fileToImportMap[key]}"`,
+    ),
+    ...[...lazyImports].map(
+      ([key, name]) => `const ${name} = () => import("${fileToImportMap[key]}")`,
+    ),
+  ]
+
+  return `// This file is auto-generated by vite-plugin-route-builder
+// Do not edit manually
+/* eslint-disable */
+// @ts-nocheck
+
+import {
+  createRootRoute,
+  createRoute,
+  lazyRouteComponent,
+  Outlet,
+} from "@tanstack/react-router"
+
+// Imports for page components
+${imports.join('\n')}
+
+const lazyComponent = (load, exportName) =>
+  lazyRouteComponent(async () => {
+    const module = await load()
+    return { default: module[exportName] ?? module.default }
+  })
+
+export const rootRoute = createRootRoute({ component: Outlet })
+
+// Generated route configuration
+${declarations.join('\n\n')}
+
+export const routeTree = rootRoute.addChildren(${renderTree(tree)})
+
+export default routeTree
+`
+}
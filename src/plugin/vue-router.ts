@@ -0,0 +1,115 @@
+import {
+  DEFAULT_EXTENSIONS,
+  type ExtendedRouteObject,
+  ROUTE_BUILDER_HANDLE,
+} from '../utils/route-builder'
+import {
+  createPageImports,
+  resolveMatchedKey,
+  type RouteFileOptions,
+} from './route-file'
+
+interface VueRouteRecord {
+  path: string
+  component?: string
+  children?: VueRouteRecord[]
+}
+
+// React Router segments in Vue Router syntax, `:id` and `:id?` are shared
+const toVuePath = (path: string) =>
+  path
+    .split('/')
+    .map((segment) => (segment === '*' ? ':pathMatch(.*)*' : segment))
+    .join('/')
+
+/**
+ * Vue Router variant of the route file, built from the same route tree.
+ * `.sync` pages are imported eagerly, all others are lazy `component` imports.
+ */
+export function generateVueRouteFileContent(
+  routes: ExtendedRouteObject[],
+  fileToImportMap: Record<string, string>,
+  options: RouteFileOptions,
+): string {
+  const { logger, extensions = DEFAULT_EXTENSIONS } = options
+
+  const { syncImports, lazyImports, registerImport } =
+    createPageImports(options)
+
+  function processRoutes(
+    routes: ExtendedRouteObject[],
+    isRoot: boolean,
+  ): VueRouteRecord[] {
+    return routes.flatMap((route) => {
+      const metadata = route[ROUTE_BUILDER_HANDLE]
+      const path = toVuePath(route.path ?? '')
+      let component: string | undefined
+
+      if (metadata?.errorBoundary || metadata?.hydrateFallback) {
+        logger.warn(
+          `[route-builder-v2] error and loading files are not supported by the Vue Router target: ${metadata.fs}`,
+        )
+      }
+
+      if (route.lazy && metadata?.fs) {
+        const matchedKey = resolveMatchedKey(
+          metadata.fs,
+          metadata.isSync,
+          fileToImportMap,
+          extensions,
+        )
+        if (matchedKey) {
+          component = `__COMPONENT_${registerImport(matchedKey, metadata.isSync)}__`
+        } else {
+          logger.warn(
+            `[route-builder-v2] No matching file for route: ${metadata.fs}`,
+          )
+        }
+      }
+
+      const children = route.children
+        ? processRoutes(route.children, isRoot && !path && !component)
+        : undefined
+
+      // groups without a layout add nothing to the matched records
+      if (!path && !component) {
+        return children ?? []
+      }
+
+      const record: VueRouteRecord = {
+        path: isRoot ? `/${path}` : path,
+      }
+      if (component) record.component = component
+      if (children) record.children = children
+      return [record]
+    })
+  }
+
+  const routesString = JSON.stringify(processRoutes(routes, true), null, 2)
+    .replaceAll(/"__COMPONENT_(\w+)__"/g, '$1')
+
+  const imports = [
+    ...[...syncImports].map(
+      ([key, name]) => `import ${name} from "${fileToImportMap[key]}"`,
+    ),
+    ...[...lazyImports].map(
+      ([key, name]) => `const ${name} = () => import("${fileToImportMap[key]}")`,
+    ),
+  ]
+
+  return `// This file is auto-generated by vite-plugin-route-builder
+// Do not edit manually
+/* eslint-disable */
+// @ts-nocheck
+
+import type { RouteRecordRaw } from "vue-router"
+
+// Imports for page components
+${imports.join('\n')}
+
+// Generated route configuration
+export const routes: RouteRecordRaw[] = ${routesString}
+
+export default routes
+`
+}
@@ -1,4 +1,4 @@
-import { get, omit } from 'es-toolkit/compat'
+import { omit } from 'es-toolkit/compat'
 
 export const ROUTE_BUILDER_HANDLE = Symbol()
 
@@ -6,26 +6,62 @@ export interface RouteBuilderHandleMetadata {
   fs: string
   fullPath: string
   isSync?: boolean
+  /** Glob key of the segment's `error` file (e.g. `error.tsx` / `error.sync.tsx`), used as the layout's `ErrorBoundary` */
+  errorBoundary?: string
+  /** Glob key of the segment's `loading` file, used as the layout's `HydrateFallback` */
+  hydrateFallback?: string
+}
+
+// Files that attach to the enclosing layout route instead of becoming pages
+const SEGMENT_CONVENTIONS = {
+  error: 'errorBoundary',
+  loading: 'hydrateFallback',
+} as const satisfies Record<string, keyof RouteBuilderHandleMetadata>
+
+export const DEFAULT_EXTENSIONS = ['.tsx']
+// `about.sync.tsx` is imported eagerly instead of lazily
+export const SYNC_MARKER = '.sync'
+
+/**
+ * Split a page file key into its base path (without extension and sync marker),
+ * extension and sync flag. Returns `undefined` for files with none of `extensions`.
+ */
+export function parseRouteFileKey(
+  key: string,
+  extensions: string[] = DEFAULT_EXTENSIONS,
+): { base: string; extension: string; isSync: boolean } | undefined {
+  // longest first, so `.page.tsx` wins over `.tsx`
+  const extension = [...extensions]
+    .sort((a, b) => b.length - a.length)
+    .find((extension) => key.endsWith(extension))
+  if (!extension) return undefined
+
+  const withoutExtension = key.slice(0, -extension.length)
+  const isSync = withoutExtension.endsWith(SYNC_MARKER)
+  return {
+    base: isSync
+      ? withoutExtension.slice(0, -SYNC_MARKER.length)
+      : withoutExtension,
+    extension,
+    isSync,
+  }
 }
 
 type NestedStructure = { [key: string]: NestedStructure }
 
-function nestPaths(paths: string[]): NestedStructure {
+function nestPaths(
+  paths: string[],
+  prefix: string,
+  extensions: string[],
+): NestedStructure {
   const result: NestedStructure = {}
 
   paths.forEach((path) => {
-    // Remove the './pages' prefix and the file extension
-    const prefix = './pages/'
-    let suffix = '.tsx'
-    let trimmedPath: string
-
-    // Check if it's a .sync.tsx file
-    if (path.endsWith('.sync.tsx')) {
-      suffix = '.sync.tsx'
-      trimmedPath = path.slice(prefix.length, -suffix.length)
-    } else {
-      trimmedPath = path.slice(prefix.length, -suffix.length)
-    }
+    const parsed = parseRouteFileKey(path, extensions)
+    if (!parsed) return
+
+    // Remove the routes dir prefix (e.g. './pages/'), the sync marker and the file extension
+    const trimmedPath = parsed.base.slice(prefix.length)
 
     const parts = trimmedPath.split('/')
 
@@ -41,8 +77,103 @@ function nestPaths(paths: string[]): NestedStructure {
   return result
 }
 
+// marks characters escaped with `[...]` until the segment is converted
+const FLAT_ESCAPE = '\0'
+
+// split a flat route name on `.`, keeping `[...]` escaped text literal
+const splitFlatRouteName = (name: string) => {
+  const segments: string[] = []
+  let segment = ''
+  let escaped = false
+
+  for (const char of name) {
+    if (char === '[' && !escaped) {
+      escaped = true
+    } else if (char === ']' && escaped) {
+      escaped = false
+    } else if (char === '.' && !escaped) {
+      segments.push(segment)
+      segment = ''
+    } else {
+      segment += escaped ? `${FLAT_ESCAPE}${char}` : char
+    }
+  }
+  segments.push(segment)
+
+  return segments
+}
+
+const unescapeFlatSegment = (segment: string) =>
+  segment.replaceAll(FLAT_ESCAPE, '')
+
+// translate one flat segment into its directory convention counterpart
+const toNestedSegment = (segment: string, key: string) => {
+  if (segment.endsWith('_') && !segment.endsWith(`${FLAT_ESCAPE}_`)) {
+    throw new Error(
+      `Flat route ${key} opts out of layout nesting with a trailing "_", which the directory tree cannot express`,
+    )
+  }
+  if (segment === '_index') return 'index'
+  if (segment === '$') return '[...splat]'
+  if (/^\(\$[^)]+\)$/.test(segment)) return `[[${segment.slice(2, -1)}]]`
+  if (segment.startsWith('$')) return `[${segment.slice(1)}]`
+  if (segment.startsWith('_')) {
+    return `(${unescapeFlatSegment(segment.slice(1))})`
+  }
+  return unescapeFlatSegment(segment)
+}
+
+/**
+ * Translate Remix-style flat route keys (`./pages/blog.$slug.tsx`, `./pages/_auth.login.tsx`,
+ * `./pages/settings._index.tsx`) into the directory convention keys `buildGlobRoutes` understands,
+ * so both conventions produce the same route tree.
+ * A folder containing `route.tsx` counts as a flat file of the folder's name; other files in
+ * folders are colocated modules and get no mapping.
+ */
+export function flatRouteKeysToNested(
+  keys: string[],
+  prefix: string,
+  extensions: string[] = DEFAULT_EXTENSIONS,
+): Map<string, string> {
+  const routes = keys.flatMap((key) => {
+    const parsed = parseRouteFileKey(key, extensions)
+    if (!parsed || !parsed.base.startsWith(prefix)) return []
+
+    const parts = parsed.base.slice(prefix.length).split('/')
+    if (parts.length > 2 || (parts.length === 2 && parts[1] !== 'route')) {
+      return []
+    }
+
+    const suffix = `${parsed.isSync ? SYNC_MARKER : ''}${parsed.extension}`
+    return [{ key, segments: splitFlatRouteName(parts[0]!), suffix }]
+  })
+
+  // a route whose segments prefix another route's segments is that route's layout
+  const isParent = (segments: string[]) =>
+    routes.some(
+      (route) =>
+        route.segments.length > segments.length &&
+        segments.every((segment, index) => route.segments[index] === segment),
+    )
+
+  const nestedKeys = new Map<string, string>()
+  for (const { key, segments, suffix } of routes) {
+    const nestedSegments = segments.map((segment) =>
+      toNestedSegment(segment, key),
+    )
+    // pathless layouts (`_auth.tsx`) always wrap their children
+    if (isParent(segments) || segments.at(-1)!.startsWith('_')) {
+      if (segments.at(-1) !== '_index') nestedSegments.push('layout')
+    }
+    nestedKeys.set(key, `${prefix}${nestedSegments.join('/')}${suffix}`)
+  }
+
+  return nestedKeys
+}
+
 // Extended RouteObject to include sync loading information
 export interface ExtendedRouteObject {
+  id?: string
   path?: string
   index?: boolean
   children?: ExtendedRouteObject[]
@@ -51,17 +182,95 @@ export interface ExtendedRouteObject {
   [ROUTE_BUILDER_HANDLE]?: RouteBuilderHandleMetadata
 }
 
+/**
+ * Directory subtrees built by earlier `buildGlobRoutes` calls, keyed by directory and position.
+ * A subtree is reused while the page files below its directory stay the same, so it keeps
+ * the `lazy` getters of the build that made it.
+ */
+export type RouteSubtreeCache = Map<
+  string,
+  {
+    /** Page files below the directory when the subtree was built */
+    files: string
+    routes: ExtendedRouteObject[]
+    /** Shallowest `loading` file the subtree hands to the nearest layout */
+    hydrateFallback?: string
+  }
+>
+
 export function buildGlobRoutes(
   glob: Record<string, () => Promise<unknown>>,
-  options: { segmentGroupOrder?: string[] } = {},
+  options: {
+    segmentGroupOrder?: string[]
+    routesDir?: string
+    extensions?: string[]
+    /** Reuse the subtrees of directories whose page files did not change since an earlier build */
+    subtreeCache?: RouteSubtreeCache
+  } = {},
 ): ExtendedRouteObject[] {
+  const {
+    segmentGroupOrder = [],
+    routesDir = 'pages',
+    extensions = DEFAULT_EXTENSIONS,
+    subtreeCache,
+  } = options
+  const rootKey = `./${routesDir}/`
   const keys = Object.keys(glob)
-  const paths = nestPaths(keys)
-  const pathGetterSet = new Set<string>()
-  const { segmentGroupOrder = [] } = options
+  const paths = nestPaths(keys, rootKey, extensions)
+
+  // page files below each directory, which decide whether its cached subtree is still valid
+  const filesByDir = new Map<string, string[]>()
+  if (subtreeCache) {
+    keys.forEach((key) => {
+      if (!key.startsWith(rootKey)) return
+      const segments = key.slice(rootKey.length).split('/')
+      for (let index = 1; index < segments.length; index++) {
+        const dirKey = `${rootKey}${segments.slice(0, index).join('/')}/`
+        const files = filesByDir.get(dirKey)
+        if (files) {
+          files.push(key)
+        } else {
+          filesByDir.set(dirKey, [key])
+        }
+      }
+    })
+  }
 
   const routeObject: ExtendedRouteObject[] = []
 
+  // stable route id from the page path, e.g. `blog/[id]` or `(main)/layout`, unlike React Router's positional ids
+  const toRouteId = (segmentPathKey: string) =>
+    segmentPathKey.slice(rootKey.length)
+
+  // resolve the file of a route base path, preferring the sync variant, then the order of `extensions`
+  const resolveRouteFile = (basePath: string) => {
+    for (const isSync of [true, false]) {
+      for (const extension of extensions) {
+        const key = `${basePath}${isSync ? SYNC_MARKER : ''}${extension}`
+        if (key in glob) return { key, isSync, getter: glob[key] }
+      }
+    }
+    return undefined
+  }
+
+  const resolveSegmentConventions = (dirKey: string) => {
+    const conventions: Pick<
+      RouteBuilderHandleMetadata,
+      (typeof SEGMENT_CONVENTIONS)[keyof typeof SEGMENT_CONVENTIONS]
+    > = {}
+    const claimedKeys: string[] = []
+
+    for (const [name, field] of Object.entries(SEGMENT_CONVENTIONS)) {
+      const file = resolveRouteFile(`${dirKey}${name}`)
+      if (file) {
+        conventions[field] = file.key
+        claimedKeys.push(name)
+      }
+    }
+
+    return { conventions, claimedKeys }
+  }
+
   const subtreeHasSync = (routes: ExtendedRouteObject[]): boolean => {
     return routes.some((r) => {
       const metadata = r[ROUTE_BUILDER_HANDLE]
@@ -71,11 +280,68 @@ export function buildGlobRoutes(
     })
   }
 
+  // the closest `loading` file wins, the first one found among files of the same depth
+  const offerHydrateFallback = (
+    metadata: RouteBuilderHandleMetadata,
+    fileKey: string,
+  ) => {
+    const current = metadata.hydrateFallback
+    if (!current || depthOf(fileKey) < depthOf(current)) {
+      metadata.hydrateFallback = fileKey
+    }
+  }
+
+  // build the routes of a subdirectory, or reuse them from the cache while its files are unchanged
+  const buildSubtree = (
+    dirKey: string,
+    paths: NestedStructure,
+    parentPath: string,
+    inSplatSegment: boolean,
+    layoutMetadata: RouteBuilderHandleMetadata | undefined,
+  ) => {
+    if (!subtreeCache) {
+      const children: ExtendedRouteObject[] = []
+      dfsRoutes(
+        dirKey,
+        children,
+        paths,
+        parentPath,
+        inSplatSegment,
+        layoutMetadata,
+      )
+      return children
+    }
+
+    const cacheKey = `${dirKey}\0${parentPath}\0${inSplatSegment}`
+    const files = (filesByDir.get(dirKey) ?? []).sort().join('\0')
+    let subtree = subtreeCache.get(cacheKey)
+    if (subtree?.files !== files) {
+      // `loading` files handed up are collected apart, so a reused subtree can hand them up again
+      const collected: RouteBuilderHandleMetadata = { fs: dirKey, fullPath: '' }
+      const children: ExtendedRouteObject[] = []
+      dfsRoutes(dirKey, children, paths, parentPath, inSplatSegment, collected)
+      subtree = {
+        files,
+        routes: children,
+        hydrateFallback: collected.hydrateFallback,
+      }
+      subtreeCache.set(cacheKey, subtree)
+    }
+    if (layoutMetadata && subtree.hydrateFallback) {
+      offerHydrateFallback(layoutMetadata, subtree.hydrateFallback)
+    }
+    return subtree.routes
+  }
+
   function dfsRoutes(
     parentKey: string,
     children: ExtendedRouteObject[],
     paths: NestedStructure,
     parentPath = '',
+    // whether `paths` is the content of a `[...slug]` directory, whose index becomes the splat route
+    inSplatSegment = false,
+    // nearest layout or group route, which takes `loading` files of directories without a layout
+    layoutMetadata?: RouteBuilderHandleMetadata,
   ) {
     const pathKeys = Object.keys(paths)
     // sort `layout` to the start, and `index` to the end
@@ -92,6 +358,10 @@ export function buildGlobRoutes(
       if (b === 'index') {
         return -1
       }
+      // splat segments go after their static and dynamic siblings
+      if (isSplatSegment(a) !== isSplatSegment(b)) {
+        return isSplatSegment(a) ? 1 : -1
+      }
       return a.localeCompare(b)
     })
 
@@ -142,6 +412,11 @@ export function buildGlobRoutes(
       })
     }
 
+    // `not-found` is the catch-all of its level, so it always goes last
+    pathKeys.sort(
+      (a, b) => Number(a === 'not-found') - Number(b === 'not-found'),
+    )
+
     for (const key of pathKeys) {
       const isGroupedRoute = key.startsWith('(') && key.endsWith(')')
 
@@ -149,47 +424,37 @@ export function buildGlobRoutes(
 
       if (isGroupedRoute) {
         // Check for both sync and async layout files
-        const syncLayoutPath = `${segmentPathKey}/layout.sync.tsx`
-        const asyncLayoutPath = `${segmentPathKey}/layout.tsx`
-
-        let accessPath: string
-        let isSync = false
-        const syncGlobGetter = get(glob, syncLayoutPath)
-        let globGetter
-
-        if (syncGlobGetter) {
-          accessPath = syncLayoutPath
-          isSync = true
-          globGetter = syncGlobGetter
-        } else {
-          accessPath = asyncLayoutPath
-          globGetter = get(glob, accessPath) || undefined
-        }
+        const accessPath = `${segmentPathKey}/layout`
+        const layoutFile = resolveRouteFile(accessPath)
+        let isSync = layoutFile?.isSync ?? false
+        const globGetter = layoutFile?.getter
 
-        if (pathGetterSet.has(accessPath)) {
-          console.error(`duplicate path: ${accessPath}`)
+        const { conventions, claimedKeys } = resolveSegmentConventions(
+          `${segmentPathKey}/`,
+        )
+        const metadata: RouteBuilderHandleMetadata = {
+          fs: segmentPathKey,
+          fullPath: parentPath,
+          ...conventions,
         }
-        pathGetterSet.add(accessPath)
 
-        const childrenChildren: ExtendedRouteObject[] = []
-        dfsRoutes(
+        // should omit convention files, because they are attached to the group route
+        const childrenChildren = buildSubtree(
           `${segmentPathKey}/`,
-          childrenChildren,
-          paths[key]!,
+          omit(paths[key], claimedKeys) as NestedStructure,
           parentPath,
+          inSplatSegment,
+          metadata,
         )
         // If any descendant is sync-loaded, the layout must also be sync-loaded
         // (otherwise the lazy layout import becomes the bottleneck).
         isSync = isSync || subtreeHasSync(childrenChildren)
         children.push({
+          id: toRouteId(layoutFile ? accessPath : segmentPathKey),
           path: '',
           lazy: globGetter,
           children: childrenChildren,
-          [ROUTE_BUILDER_HANDLE]: {
-            fs: segmentPathKey,
-            fullPath: parentPath,
-            isSync,
-          },
+          [ROUTE_BUILDER_HANDLE]: { ...metadata, isSync },
         })
       } else if (key === 'layout') {
         // if parent key is grouped routes, the layout is handled, so skip this logic
@@ -198,40 +463,38 @@ export function buildGlobRoutes(
         }
 
         // Check for both sync and async layout files
-        const syncLayoutPath = `${segmentPathKey}.sync.tsx`
-        const asyncLayoutPath = `${segmentPathKey}.tsx`
-
-        let isSync = false
-        const syncGlobGetter = get(glob, syncLayoutPath)
-        let globGetter
-
-        if (syncGlobGetter) {
-          isSync = true
-          globGetter = syncGlobGetter
-        } else {
-          globGetter = get(glob, asyncLayoutPath)
+        const layoutFile = resolveRouteFile(segmentPathKey)
+        let isSync = layoutFile?.isSync ?? false
+        const globGetter = layoutFile?.getter
+
+        const { conventions, claimedKeys } =
+          resolveSegmentConventions(parentKey)
+        const metadata: RouteBuilderHandleMetadata = {
+          fs: segmentPathKey,
+          fullPath: parentPath,
+          ...conventions,
         }
 
         const childrenChildren: ExtendedRouteObject[] = []
-        // should omit layout, because layout is already handled
+        // should omit layout, because layout is already handled, and convention
+        // files, because they are attached to the layout route
         dfsRoutes(
           parentKey,
           childrenChildren,
-          omit(paths, 'layout') as NestedStructure,
+          omit(paths, ['layout', ...claimedKeys]) as NestedStructure,
           parentPath,
+          inSplatSegment,
+          metadata,
         )
         // If any descendant is sync-loaded, the layout must also be sync-loaded
         // (otherwise the lazy layout import becomes the bottleneck).
         isSync = isSync || subtreeHasSync(childrenChildren)
         const layoutRoute: ExtendedRouteObject = {
+          id: toRouteId(segmentPathKey),
           path: '',
           lazy: globGetter,
           children: childrenChildren,
-          [ROUTE_BUILDER_HANDLE]: {
-            fs: segmentPathKey,
-            fullPath: parentPath,
-            isSync,
-          },
+          [ROUTE_BUILDER_HANDLE]: { ...metadata, isSync },
         }
 
         children.push(layoutRoute)
@@ -240,34 +503,35 @@ export function buildGlobRoutes(
         const content = paths[key]!
         const hasChild = Object.keys(content).length > 0
 
-        const normalizeKey = normalizePathKey(key)
+        // a `loading` file is never a page: without a layout next to it, it is
+        // the fallback of the nearest layout, unless a closer one provides its own
+        if (key === 'loading' && !hasChild) {
+          const file = resolveRouteFile(segmentPathKey)
+          if (file && layoutMetadata) {
+            offerHydrateFallback(layoutMetadata, file.key)
+          }
+          continue
+        }
+
+        const normalizeKey =
+          (inSplatSegment && key === 'index') ||
+          (key === 'not-found' && !hasChild)
+            ? '*'
+            : normalizePathKey(key)
 
         if (!hasChild) {
           // Check for both sync and async files
-          const syncPath = `${segmentPathKey}.sync.tsx`
-          const asyncPath = `${segmentPathKey}.tsx`
-
-          let accessPath: string
-          let isSync = false
-          const syncGlobGetter = get(glob, syncPath)
-          let globGetter
-
-          if (syncGlobGetter) {
-            accessPath = syncPath
-            isSync = true
-            globGetter = syncGlobGetter
-          } else {
-            accessPath = asyncPath
-            globGetter = get(glob, asyncPath)
-          }
-
-          if (pathGetterSet.has(accessPath)) {
-            console.error(`duplicate path: ${accessPath}`)
-          }
-          pathGetterSet.add(accessPath)
+          const accessPath = segmentPathKey
+          const file = resolveRouteFile(accessPath)
+          const isSync = file?.isSync ?? false
+          const globGetter = file?.getter
 
+          // `index` pages become React Router index routes, matching their parent's path exactly
           const leafRoute: ExtendedRouteObject = {
-            path: normalizeKey,
+            id: toRouteId(segmentPathKey),
+            ...(key === 'index' && normalizeKey === ''
+              ? { index: true }
+              : { path: normalizeKey }),
             lazy: globGetter,
             [ROUTE_BUILDER_HANDLE]: {
               fs: `${segmentPathKey}/${normalizeKey}`,
@@ -277,16 +541,38 @@ export function buildGlobRoutes(
           }
 
           children.push(leafRoute)
+        } else if (normalizeKey === '*') {
+          // `[...slug]/index.tsx`: React Router only allows `*` at the end of a
+          // path, so the directory stays pathless and its index takes the splat
+          const childrenChildren = buildSubtree(
+            `${segmentPathKey}/`,
+            paths[key]!,
+            parentPath,
+            true,
+            layoutMetadata,
+          )
+          const branchRoute: ExtendedRouteObject = {
+            id: toRouteId(segmentPathKey),
+            path: '',
+            children: childrenChildren,
+            [ROUTE_BUILDER_HANDLE]: {
+              fs: `${segmentPathKey}/${normalizeKey}`,
+              fullPath: parentPath,
+            },
+          }
+
+          children.push(branchRoute)
         } else {
-          const childrenChildren: ExtendedRouteObject[] = []
           const fullPath = `${parentPath}/${normalizeKey}`
-          dfsRoutes(
+          const childrenChildren = buildSubtree(
             `${segmentPathKey}/`,
-            childrenChildren,
             paths[key]!,
             fullPath,
+            false,
+            layoutMetadata,
           )
           const branchRoute: ExtendedRouteObject = {
+            id: toRouteId(segmentPathKey),
             path: normalizeKey,
             children: childrenChildren,
             [ROUTE_BUILDER_HANDLE]: {
@@ -301,15 +587,117 @@ export function buildGlobRoutes(
     }
   }
 
-  dfsRoutes('./pages/', routeObject, paths)
+  dfsRoutes(rootKey, routeObject, paths)
   return routeObject
 }
 
+export interface RouteConflict {
+  /** URL the files collide on, e.g. `/blog/:id` */
+  path: string
+  /** Glob keys of the colliding files */
+  files: string[]
+}
+
+const depthOf = (key: string) => key.split('/').length
+
+const isGroupSegment = (key: string) => key.startsWith('(') && key.endsWith(')')
+
+// URL a page file is served at, following the same rules as `buildGlobRoutes`
+const toPagePath = (segments: string[]) => {
+  const parts = segments.flatMap((segment, index) => {
+    const isLast = index === segments.length - 1
+    if (isGroupSegment(segment)) return []
+    // `[...slug]` directories stay pathless, their index takes the splat
+    if (isSplatSegment(segment) && !isLast) return []
+    if (isLast && segment === 'index') {
+      return index > 0 && isSplatSegment(segments[index - 1]!) ? ['*'] : []
+    }
+    if (isLast && segment === 'not-found') return ['*']
+    return [normalizePathKey(segment)]
+  })
+  return `/${parts.join('/')}`
+}
+
+/**
+ * Find page files that React Router could not tell apart: variants of one route
+ * (`a.tsx` + `a.sync.tsx`), a file next to a directory serving the same URL
+ * (`about.tsx` + `about/index.tsx`), pages of different groups at the same URL
+ * (`(a)/index.tsx` + `(b)/index.tsx`) and params of different names (`[id].tsx` + `[slug].tsx`).
+ */
+export function findRouteConflicts(
+  keys: string[],
+  options: { routesDir?: string; extensions?: string[] } = {},
+): RouteConflict[] {
+  const { routesDir = 'pages', extensions = DEFAULT_EXTENSIONS } = options
+  const rootKey = `./${routesDir}/`
+
+  const pages = keys.flatMap((key) => {
+    const parsed = parseRouteFileKey(key, extensions)
+    if (!parsed?.base.startsWith(rootKey)) return []
+    return [{ key, segments: parsed.base.slice(rootKey.length).split('/') }]
+  })
+  const bases = new Set(pages.map(({ segments }) => segments.join('/')))
+
+  const claims = new Map<string, RouteConflict>()
+  for (const { key, segments } of pages) {
+    const name = segments.at(-1)!
+    const dirSegments = segments.slice(0, -1)
+    const dir = dirSegments.join('/')
+    const ownsConventions =
+      bases.has(dir ? `${dir}/layout` : 'layout') ||
+      isGroupSegment(dirSegments.at(-1) ?? '')
+
+    // layouts and the files attached to them only collide with their own variants
+    let claim: string
+    let path: string
+    // `loading` files never become pages, they attach to the nearest layout
+    if (
+      name === 'layout' ||
+      name === 'loading' ||
+      (Object.hasOwn(SEGMENT_CONVENTIONS, name) && ownsConventions)
+    ) {
+      path = toPagePath(dirSegments)
+      claim = `${dir}/${name}`
+    } else {
+      path = toPagePath(segments)
+      // params match the same URLs whatever their name
+      claim = path.replaceAll(/:[\w-]+/g, ':')
+    }
+
+    const conflict = claims.get(claim)
+    if (conflict) {
+      conflict.files.push(key)
+    } else {
+      claims.set(claim, { path, files: [key] })
+    }
+  }
+
+  return [...claims.values()]
+    .filter(({ files }) => files.length > 1)
+    .sort((a, b) => a.path.localeCompare(b.path))
+}
+
+const isSplatSegment = (key: string) =>
+  key.startsWith('[...') && key.endsWith(']')
+
+const isOptionalSegment = (key: string) =>
+  key.startsWith('[[') && key.endsWith(']]')
+
 const normalizePathKey = (key: string) => {
   if (key === 'index') {
     return ''
   }
 
+  // `[...slug]` catch-all segments become React Router splats, read via `params['*']`
+  if (isSplatSegment(key)) {
+    return '*'
+  }
+
+  // `[[lang]]` optional segments match with or without the param
+  if (isOptionalSegment(key)) {
+    return `:${key.slice(2, -2)}?`
+  }
+
   if (key.startsWith('[') && key.endsWith(']')) {
     return `:${key.slice(1, -1)}`
   }
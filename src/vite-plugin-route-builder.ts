@@ -1,11 +1,38 @@
 import { relative, resolve } from 'pathe'
-import type { Logger, Plugin } from 'vite'
+import type { Logger, Plugin, ViteDevServer } from 'vite'
 
-import { generateRoutes } from './plugin/route-generator'
+import { resolveRouteEmitter, type RouteTarget } from './plugin/emitter'
+import {
+  createPageFileIndex,
+  type PageFileIndex,
+} from './plugin/page-file-index'
+import {
+  generateRoutes,
+  getPatternBaseDir,
+  type RouteSource,
+} from './plugin/route-generator'
+import {
+  DEFAULT_EXTENSIONS,
+  parseRouteFileKey,
+  type RouteSubtreeCache,
+  SYNC_MARKER,
+} from './utils/route-builder'
+
+export const VIRTUAL_ROUTES_ID = 'virtual:route-builder/routes'
+const RESOLVED_VIRTUAL_ROUTES_ID = `\0${VIRTUAL_ROUTES_ID}`
+const PLUGIN_NAME = 'vite-plugin-route-builder-v2'
 
 export interface RouteBuilderPluginOptions {
-  /** Page files glob pattern */
+  /** Page files glob pattern. Default: every `extensions` file (and its sync variant) in `routesDir`, e.g. `./pages/**\/*.{tsx,sync.tsx}` */
   pagePattern?: string
+  /** Directory holding the page files, e.g. `src/routes` or `app/views`. Its contents form the route tree. Default: `pages` */
+  routesDir?: string
+  /** Several page roots, each with its own glob, mount prefix and optional layout, merged into one route tree. Replaces `pagePattern` */
+  sources?: RouteSource[]
+  /** Page file extensions, in resolution order. `.sync` before the extension marks an eagerly imported page. Default: `['.tsx']` */
+  extensions?: string[]
+  /** How page files describe nesting: `directory` (default) uses folders, `flat` uses Remix-style dot-separated names like `blog.$slug.tsx` */
+  routeConvention?: 'directory' | 'flat'
   /** Output path for generated routes */
   outputPath?: string
   /** Whether to enable in dev mode */
@@ -16,42 +43,127 @@ export interface RouteBuilderPluginOptions {
   debug?: boolean
   /** Custom order for segment groups in route tree. Array of group names (with or without parentheses). Default: filesystem order */
   segmentGroupOrder?: string[]
+  /** Fail the build on routes that resolve to no page file, page files no route uses, empty route branches and missing source layouts. The dev server shows them in its error overlay */
+  strict?: boolean
+  /** Router framework to generate routes for: `route-objects` (default, React Router `RouteObject[]`), `framework` (React Router framework mode `routes.ts`), `vue-router`, `tanstack-router`, or a custom emitter */
+  target?: RouteTarget
+  /** Serve routes as the `virtual:route-builder/routes` module instead of writing `outputPath` */
+  virtual?: boolean
+  /** Output path for the virtual module's type declarations. Default: `./src/route-builder.d.ts` */
+  dtsPath?: string
 }
 
 export function routeBuilderPlugin(
   options: RouteBuilderPluginOptions = {},
 ): Plugin {
   const {
-    pagePattern = './pages/**/*.{tsx,sync.tsx}',
+    routesDir: rawRoutesDir = 'pages',
+    sources,
+    routeConvention = 'directory',
     outputPath = './src/generated-routes.ts',
     enableInDev = true,
     transformPath,
     debug = false,
     segmentGroupOrder = [],
+    strict = false,
+    target = 'route-objects',
+    virtual = false,
+    dtsPath = './src/route-builder.d.ts',
   } = options
+  const emitter = resolveRouteEmitter(target)
+  if (virtual && !emitter.emitVirtual) {
+    throw new Error(
+      `[route-builder-v2] The ${emitter.name} target cannot be served as a virtual module`,
+    )
+  }
+  const extensions =
+    options.extensions ?? emitter.extensions ?? DEFAULT_EXTENSIONS
+
+  const routesDir = rawRoutesDir.replace(/^\.?\/+/, '').replace(/\/+$/, '')
+  const extensionGlob = extensions
+    .flatMap((extension) => [
+      extension.slice(1),
+      `${SYNC_MARKER.slice(1)}${extension}`,
+    ])
+    .join(',')
+  const pagePattern =
+    options.pagePattern ?? `./${routesDir}/**/*.{${extensionGlob}}`
 
   let isProduction = false
   let root = ''
   let logger: Logger
+  let virtualModuleCode: string | undefined
+  let pageFiles: PageFileIndex
+  // route subtrees kept across dev regenerations, so a page event only rebuilds its directories
+  let routeSubtrees: RouteSubtreeCache
+  // routes of the last successful generation, to skip updates that change nothing
+  let lastCode: string | undefined
+  let devServer: ViteDevServer | undefined
+  // last generation error in dev, shown in the error overlay until the routes generate again
+  let generationError: Error | undefined
 
-  const runGenerateRoutes = () => {
-    generateRoutes({
-      root,
-      pagePattern,
-      outputPath,
-      transformPath,
-      debug,
-      segmentGroupOrder,
-      logger,
+  const showErrorOverlay = () => {
+    if (!devServer || !generationError) return
+    devServer.ws.send({
+      type: 'error',
+      err: {
+        message: generationError.message,
+        stack: generationError.stack ?? '',
+        plugin: PLUGIN_NAME,
+      },
     })
   }
 
+  /** Generate the routes, returns whether they differ from the last generation */
+  const runGenerateRoutes = () => {
+    let code: string
+    try {
+      code = generateRoutes({
+        root,
+        pagePattern,
+        routesDir,
+        sources,
+        extensions,
+        routeConvention,
+        outputPath,
+        transformPath,
+        debug,
+        segmentGroupOrder,
+        logger,
+        isBuild: isProduction,
+        strict,
+        pageFiles,
+        routeSubtrees,
+        emitter,
+        virtual: virtual ? { moduleId: VIRTUAL_ROUTES_ID, dtsPath } : undefined,
+      })
+    } catch (error) {
+      if (isProduction) throw error
+      // the dev server keeps running, the previous route file stays in place
+      generationError = error as Error
+      virtualModuleCode = undefined
+      lastCode = undefined
+      showErrorOverlay()
+      return true
+    }
+
+    generationError = undefined
+    if (virtual) {
+      virtualModuleCode = code
+    }
+    const changed = code !== lastCode
+    lastCode = code
+    return changed
+  }
+
   return {
-    name: 'vite-plugin-route-builder-v2',
+    name: PLUGIN_NAME,
     configResolved(config) {
       isProduction = config.command === 'build'
       root = config.root
       logger = config.logger
+      pageFiles = createPageFileIndex(root)
+      routeSubtrees = new Map()
     },
 
     buildStart() {
@@ -60,23 +172,75 @@ export function routeBuilderPlugin(
       }
     },
 
+    resolveId(id) {
+      if (virtual && id === VIRTUAL_ROUTES_ID) {
+        return RESOLVED_VIRTUAL_ROUTES_ID
+      }
+    },
+
+    load(id) {
+      if (id !== RESOLVED_VIRTUAL_ROUTES_ID) return
+      if (virtualModuleCode === undefined) {
+        runGenerateRoutes()
+      }
+      if (generationError) {
+        throw generationError
+      }
+      return virtualModuleCode
+    },
+
     configureServer(server) {
       if (!enableInDev) return
 
-      const watchPattern = resolve(root, pagePattern.replace('./', ''))
-      server.watcher.add(watchPattern)
+      devServer = server
+      // errors from the initial generation happen before any client is connected
+      server.ws.on('connection', showErrorOverlay)
 
-      server.watcher.on('add', handleFileChange)
-      server.watcher.on('unlink', handleFileChange)
+      const watchPatterns = sources?.length
+        ? sources.map((source) => source.pattern)
+        : [pagePattern]
+      const sourceBaseDirs = (sources ?? []).map(
+        (source) => `${getPatternBaseDir(source.pattern)}/`,
+      )
 
-      function handleFileChange(path: string) {
+      for (const pattern of watchPatterns) {
+        server.watcher.add(resolve(root, pattern.replace('./', '')))
+      }
+
+      server.watcher.on('add', (path) =>
+        handleFileChange(path, () => pageFiles.add(path)),
+      )
+      server.watcher.on('unlink', (path) =>
+        handleFileChange(path, () => pageFiles.remove(path)),
+      )
+      // edits can change page exports (e.g. a new `loader`) or MDX frontmatter
+      server.watcher.on('change', (path) =>
+        handleFileChange(path, () => pageFiles.refresh(path)),
+      )
+
+      // `updateIndex` returns whether the routes may have changed
+      function handleFileChange(path: string, updateIndex: () => boolean) {
         const relativePath = relative(root, path)
-        if (
-          relativePath.includes('/pages/') &&
-          (relativePath.endsWith('.tsx') || relativePath.endsWith('.sync.tsx'))
-        ) {
+        const normalizedPath = relativePath.replace(/^\.?\//, '')
+        const isInSource =
+          `/${normalizedPath}`.includes(`/${routesDir}/`) ||
+          sourceBaseDirs.some((baseDir) => normalizedPath.startsWith(baseDir))
+        if (isInSource && parseRouteFileKey(relativePath, extensions)) {
+          // after a failed generation, any page event may be the fix
+          if (!updateIndex() && !generationError) return
+
           logger.info(`[route-builder-v2] Page file changed: ${relativePath}`)
-          runGenerateRoutes()
+          // the output is skipped when the rebuilt routes are the same
+          if (!runGenerateRoutes()) return
+
+          if (virtual) {
+            const module = server.moduleGraph.getModuleById(
+              RESOLVED_VIRTUAL_ROUTES_ID,
+            )
+            if (module) {
+              server.reloadModule(module)
+            }
+          }
 
           // Send custom HMR event
           server.ws.send({